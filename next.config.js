@@ -7,6 +7,8 @@ import "./src/env.js";
 /** @type {import("next").NextConfig} */
 const config = {
     reactStrictMode: true,
+    // node-canvas ships a native binding that must not be bundled
+    serverExternalPackages: ["canvas"],
     images: {
         remotePatterns: [
             {
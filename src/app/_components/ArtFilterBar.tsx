@@ -0,0 +1,95 @@
+'use client';
+
+import { Button } from '~/components/ui/button';
+import { Label } from '~/components/ui/label';
+import {
+  ART_SORT_LABELS,
+  ART_TREATMENT_LABELS,
+  type ArtFilters,
+  type ArtSortOrder,
+  type ArtTreatment,
+  type CardArt,
+  DEFAULT_ART_FILTERS,
+  getArtTreatments,
+} from '~/lib/cardArt';
+
+interface ArtFilterBarProps {
+  arts: CardArt[];
+  filters: ArtFilters;
+  onChange: (filters: ArtFilters) => void;
+}
+
+const selectClassName = 'bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-xs h-7 px-2 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+// Filter and sort controls for the art selection dialog. Options only list what the current arts have.
+export function ArtFilterBar({ arts, filters, onChange }: ArtFilterBarProps) {
+  const sets = [...new Set(arts.map((art) => art.set))].sort();
+  const artists = [...new Set(arts.flatMap((art) => (art.artist ? [art.artist] : [])))].sort();
+  const treatments = (Object.keys(ART_TREATMENT_LABELS) as ArtTreatment[])
+    .filter((treatment) => arts.some((art) => getArtTreatments(art).includes(treatment)));
+
+  const update = (changes: Partial<ArtFilters>) => onChange({ ...filters, ...changes });
+  const isFiltered = filters.set !== '' || filters.artist !== '' || filters.treatment !== '' || filters.usage !== 'all';
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <select value={filters.set} onChange={(e) => update({ set: e.target.value })} className={selectClassName}>
+        <option value="">All sets</option>
+        {sets.map((set) => <option key={set} value={set}>{set}</option>)}
+      </select>
+      <select value={filters.artist} onChange={(e) => update({ artist: e.target.value })} className={selectClassName}>
+        <option value="">All artists</option>
+        {artists.map((artist) => <option key={artist} value={artist}>{artist}</option>)}
+      </select>
+      <select
+        value={filters.treatment}
+        onChange={(e) => update({ treatment: e.target.value as ArtFilters['treatment'] })}
+        className={selectClassName}
+      >
+        <option value="">All treatments</option>
+        <option value="regular">Regular frame</option>
+        {treatments.map((treatment) => (
+          <option key={treatment} value={treatment}>{ART_TREATMENT_LABELS[treatment]}</option>
+        ))}
+      </select>
+      <select
+        value={filters.usage}
+        onChange={(e) => update({ usage: e.target.value as ArtFilters['usage'] })}
+        className={selectClassName}
+      >
+        <option value="all">Used or not</option>
+        <option value="unused">Never used</option>
+        <option value="used">Used before</option>
+      </select>
+      <select
+        value={filters.sort}
+        onChange={(e) => update({ sort: e.target.value as ArtSortOrder })}
+        className={selectClassName}
+      >
+        {(Object.keys(ART_SORT_LABELS) as ArtSortOrder[]).map((sort) => (
+          <option key={sort} value={sort}>Sort: {ART_SORT_LABELS[sort]}</option>
+        ))}
+      </select>
+      <div className="flex items-center space-x-1">
+        <input
+          id="art-usage-all-workspaces"
+          type="checkbox"
+          checked={filters.allWorkspaces}
+          onChange={(e) => update({ allWorkspaces: e.target.checked })}
+          className="h-4 w-4 accent-orange-400"
+        />
+        <Label htmlFor="art-usage-all-workspaces" className="text-xs text-slate-300">Usage from all workspaces</Label>
+      </div>
+      {isFiltered && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...DEFAULT_ART_FILTERS, sort: filters.sort, allWorkspaces: filters.allWorkspaces })}
+          className="h-7 px-2 text-xs text-indigo-300 hover:text-indigo-200"
+        >
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { api } from '~/trpc/react';
+import { WorkspaceSwitcher } from '~/app/_components/WorkspaceSwitcher';
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+// Sign-in form, or the first admin account's sign-up while no accounts exist
+function SignInForm({ isSetup }: { isSetup: boolean }) {
+  const utils = api.useUtils();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(isSetup ? '/api/auth/setup' : '/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), password }),
+      });
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        setError(error ?? 'Failed to sign in.');
+        return;
+      }
+      await utils.auth.invalidate();
+    } catch (error) {
+      console.error("Failed to sign in:", error);
+      setError('Failed to sign in.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="flex flex-col items-center justify-center min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-indigo-900 text-slate-50 p-4 space-y-6">
+      <h1 className="text-center text-4xl font-extrabold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-purple-400 via-pink-400 to-orange-400">OCHM Thumbnail Creator</h1>
+      <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-4 bg-slate-800/50 p-6 rounded-xl shadow-2xl border-2 border-indigo-400/30">
+        <p className="text-sm text-slate-300">
+          {isSetup ? 'No accounts yet. Create the first one; it gets the admin role.' : 'Sign in to continue.'}
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="auth-username" className='text-indigo-200'>Username</Label>
+          <Input
+            id="auth-username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            className="bg-slate-700/50 border-indigo-500/50 text-slate-300"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="auth-password" className='text-indigo-200'>Password</Label>
+          <Input
+            id="auth-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={isSetup ? 'new-password' : 'current-password'}
+            className="bg-slate-700/50 border-indigo-500/50 text-slate-300"
+          />
+        </div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <Button type="submit" disabled={!username.trim() || !password || isSubmitting} className="w-full">
+          {isSubmitting ? 'Signing in...' : isSetup ? 'Create Admin Account' : 'Sign In'}
+        </Button>
+      </form>
+    </main>
+  );
+}
+
+/**
+ * Shows the app only to signed-in users, with the workspace switcher, who's signed in and a
+ * sign-out link in the corner. The API enforces the roles; this just keeps anonymous visitors at
+ * the sign-in form.
+ */
+export function AuthGate({ children }: AuthGateProps) {
+  const utils = api.useUtils();
+  const meQuery = api.auth.me.useQuery();
+  const needsSetupQuery = api.auth.needsSetup.useQuery(undefined, { enabled: meQuery.data === null });
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error("Failed to sign out:", error);
+    }
+    await utils.invalidate();
+  };
+
+  if (meQuery.isLoading || (meQuery.data === null && needsSetupQuery.isLoading)) {
+    return <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-indigo-900" />;
+  }
+
+  const user = meQuery.data;
+  if (!user) return <SignInForm isSetup={needsSetupQuery.data ?? false} />;
+
+  return (
+    <>
+      <div className="fixed top-2 right-3 z-50 flex items-center space-x-3 rounded-md bg-slate-900/80 px-3 py-1 text-xs text-slate-300">
+        <WorkspaceSwitcher />
+        <span>{user.username} <span className="text-slate-400">({user.role})</span></span>
+        {user.role === 'admin' && <Link href="/users" className="text-indigo-300 hover:text-indigo-200">Users & Workspaces</Link>}
+        <button type="button" onClick={handleSignOut} className="text-indigo-300 hover:text-indigo-200">Sign out</button>
+      </div>
+      {children}
+    </>
+  );
+}
@@ -24,6 +24,7 @@ import { useDebounce } from '~/hooks/useDebounce';
 interface DeckAutocompleteComboboxProps {
   value: string;
   onValueChange: (value: string) => void;
+  onSelect?: (deckName: string) => void; // Called when a deck is picked from the list, not while typing
   placeholder?: string;
   emptyResultText?: string;
   disabled?: boolean;
@@ -32,6 +33,7 @@ interface DeckAutocompleteComboboxProps {
 export function DeckAutocompleteCombobox({
   value,
   onValueChange,
+  onSelect,
   placeholder = 'Select deck...',
   emptyResultText = 'No deck found. Type to create.',
   disabled = false,
@@ -51,6 +53,7 @@ export function DeckAutocompleteCombobox({
 
   const handleSelect = (currentValue: string) => {
     onValueChange(currentValue);
+    onSelect?.(currentValue);
     setSearchQuery('');
     setOpen(false);
   };
@@ -110,7 +113,12 @@ export function DeckAutocompleteCombobox({
                     onSelect={() => handleSelect(deck.name)}
                     className="flex justify-between"
                   >
-                    <span>{deck.name}</span>
+                    <span>
+                      {deck.name}
+                      {deck.matchedAlias && (
+                        <span className="text-xs text-muted-foreground ml-1">({deck.matchedAlias})</span>
+                      )}
+                    </span>
                     <span className="text-xs text-muted-foreground ml-2">
                       {format(new Date(deck.lastUsedAt), 'P')}
                     </span>
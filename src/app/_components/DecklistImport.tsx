@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { Label } from '~/components/ui/label';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { api } from '~/trpc/react';
+import { type DecklistEntry, getSuggestedCards, parseDecklist } from '~/lib/decklist';
+import type { CardSlot } from '~/lib/thumbnail';
+import type { ArtSlot } from '~/lib/template';
+
+interface DecklistImportProps {
+  deckName: string;
+  slots: ArtSlot[];
+  isSlotFilled: (slot: CardSlot) => boolean;
+  onSelectCard: (slot: CardSlot, cardName: string) => void;
+}
+
+/**
+ * Imports a decklist for one side and lists its cards so they can be dropped into that side's
+ * slots. Lists are saved on the deck, so they come back whenever the deck name is used again.
+ */
+export function DecklistImport({ deckName, slots, isSlotFilled, onSelectCard }: DecklistImportProps) {
+  const utils = api.useUtils();
+  const [isImporting, setIsImporting] = useState(false);
+  const [pastedList, setPastedList] = useState('');
+  const [targetSlot, setTargetSlot] = useState<CardSlot | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const trimmedDeckName = deckName.trim();
+  const decklistQuery = api.deck.getDecklist.useQuery(
+    { name: trimmedDeckName },
+    { enabled: !!trimmedDeckName, staleTime: 1000 * 60 * 5 }
+  );
+  const suggestedCards = getSuggestedCards(decklistQuery.data ?? []);
+
+  const resolveQuery = api.scryfall.resolveCards.useQuery(
+    { names: suggestedCards.map((entry) => entry.name) },
+    { enabled: suggestedCards.length > 0, staleTime: 1000 * 60 * 60 }
+  );
+  const resolvedByName = new Map(resolveQuery.data?.resolved.map((card) => [card.requestedName, card]));
+
+  const saveDecklistMutation = api.deck.saveDecklist.useMutation({
+    onSuccess: () => {
+      setIsImporting(false);
+      setPastedList('');
+      void utils.deck.getDecklist.invalidate({ name: trimmedDeckName });
+    },
+  });
+
+  const importDecklist = (text: string, fileName?: string) => {
+    const decklist = parseDecklist(text, fileName);
+    if (decklist.length === 0) {
+      setParseError('No cards found in that decklist.');
+      return;
+    }
+    setParseError(null);
+    saveDecklistMutation.mutate({ name: trimmedDeckName, decklist });
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => importDecklist(ev.target?.result as string, file.name);
+    reader.readAsText(file);
+  };
+
+  // Defaults to the first empty slot on this side so clicking cards fills the slots in order
+  const currentTarget = targetSlot && slots.some(({ slot }) => slot === targetSlot)
+    ? targetSlot
+    : (slots.find(({ slot }) => !isSlotFilled(slot)) ?? slots[0])?.slot;
+
+  const handleCardClick = (entry: DecklistEntry) => {
+    if (!currentTarget) return;
+    onSelectCard(currentTarget, resolvedByName.get(entry.name)?.name ?? entry.name);
+    setTargetSlot(null);
+  };
+
+  if (!trimmedDeckName || slots.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className='text-indigo-200 text-xs'>Decklist</Label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsImporting((open) => !open)}
+          className="h-6 px-2 text-xs text-indigo-300 hover:text-indigo-200"
+        >
+          {isImporting ? 'Cancel' : decklistQuery.data ? 'Replace List' : 'Import List'}
+        </Button>
+      </div>
+
+      {isImporting && (
+        <div className="space-y-2">
+          <textarea
+            value={pastedList}
+            onChange={(e) => setPastedList(e.target.value)}
+            placeholder={'Paste an MTGO or Arena list...\n4 Ragavan, Nimble Pilferer\n4 Lightning Bolt'}
+            rows={5}
+            className="w-full bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-xs p-2 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              onClick={() => importDecklist(pastedList)}
+              disabled={!pastedList.trim() || saveDecklistMutation.isPending}
+            >
+              Import
+            </Button>
+            <Input
+              type="file"
+              accept=".txt,.dek,.csv"
+              onChange={handleFileUpload}
+              className="text-xs h-8 text-slate-300 file:mr-2 file:rounded-md file:border-0 file:text-xs file:bg-orange-400/20 file:text-orange-300"
+            />
+          </div>
+          {parseError && <p className="text-xs text-red-400">{parseError}</p>}
+          {saveDecklistMutation.isError && <p className="text-xs text-red-400">Failed to save decklist.</p>}
+        </div>
+      )}
+
+      {suggestedCards.length > 0 && (
+        <>
+          {slots.length > 1 && (
+            <select
+              value={currentTarget ?? ''}
+              onChange={(e) => setTargetSlot(e.target.value)}
+              className="w-full bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-xs h-7 px-2 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            >
+              {slots.map(({ slot, label }) => (
+                <option key={slot} value={slot}>Drop into: {label}</option>
+              ))}
+            </select>
+          )}
+          <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+            {suggestedCards.map((entry) => {
+              const resolved = resolvedByName.get(entry.name);
+              const notFound = resolveQuery.data?.notFound.includes(entry.name);
+              return (
+                <button
+                  key={entry.name}
+                  type="button"
+                  onClick={() => handleCardClick(entry)}
+                  title={notFound ? `"${entry.name}" wasn't found on Scryfall` : `Use ${resolved?.name ?? entry.name}`}
+                  className={`text-xs px-2 py-0.5 rounded-full border ${notFound
+                    ? 'border-red-500/50 text-red-300'
+                    : 'border-indigo-500/50 text-slate-300 hover:bg-indigo-500/20'}`}
+                >
+                  {entry.quantity} {resolved?.name ?? entry.name}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
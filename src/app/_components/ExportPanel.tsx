@@ -0,0 +1,273 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import JSZip from 'jszip';
+import { Button } from '~/components/ui/button';
+import { Label } from '~/components/ui/label';
+import ThumbnailCanvas, { type ThumbnailCanvasHandle, type ThumbnailCanvasProps } from '~/app/_components/ThumbnailCanvas';
+import { type TemplateDefinition, fitTemplateToAspectRatio } from '~/lib/template';
+import {
+  DEFAULT_EXPORT_PRESET_KEY,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_MIME_TYPES,
+  EXPORT_PRESETS,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportPreset,
+  YOUTUBE_THUMBNAIL_MAX_BYTES,
+  getPresetFileName,
+} from '~/lib/exportPresets';
+
+// Everything the offscreen canvas needs besides the template and its size
+type ExportCanvasProps = Omit<
+  ThumbnailCanvasProps,
+  'template' | 'canvasWidth' | 'canvasHeight' | 'selectedTextLayer' | 'onSelectTextLayer' | 'onTextStyleChange' | 'onCropChange' | 'onReady'
+>;
+
+interface ExportPanelProps {
+  canvasRef: React.RefObject<ThumbnailCanvasHandle | null>;
+  template: TemplateDefinition; // With the thumbnail's text layer styles already applied
+  canvasProps: ExportCanvasProps;
+  title: string; // File name without the extension
+  disabled?: boolean;
+  disabledLabel?: string;
+  onExport: () => void; // Called once per export, after the files are saved
+}
+
+interface RenderJob {
+  preset: ExportPreset;
+  template: TemplateDefinition;
+  resolve: (canvas: HTMLCanvasElement) => void;
+  reject: (error: Error) => void;
+}
+
+const RENDER_TIMEOUT_MS = 20000;
+const MIN_QUALITY = 0.3;
+const QUALITY_SEARCH_STEPS = 6;
+
+const selectClassName = 'bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-2 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      // Browsers fall back to PNG for formats they can't encode
+      if (!blob || blob.type !== EXPORT_MIME_TYPES[format]) {
+        reject(new Error(`This browser can't export ${EXPORT_FORMAT_LABELS[format]} images.`));
+        return;
+      }
+      resolve(blob);
+    }, EXPORT_MIME_TYPES[format], quality);
+  });
+
+// Encodes at the chosen quality, lowering it as little as needed to fit under the size limit
+const encodeCanvas = async (canvas: HTMLCanvasElement, { format, quality, maxBytes }: ExportOptions) => {
+  const blob = await canvasToBlob(canvas, format, quality);
+  if (format === 'png' || maxBytes === null || blob.size <= maxBytes) return blob;
+
+  let low = MIN_QUALITY;
+  let high = quality;
+  let best: Blob | null = null;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const candidate = await canvasToBlob(canvas, format, (low + high) / 2);
+    if (candidate.size <= maxBytes) {
+      best = candidate;
+      low = (low + high) / 2;
+    } else {
+      high = (low + high) / 2;
+    }
+  }
+  return best ?? canvasToBlob(canvas, format, MIN_QUALITY);
+};
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+
+/**
+ * Downloads the thumbnail at any of the export presets. 16:9 presets are taken straight from the
+ * editor canvas; other shapes are re-laid out and drawn on a hidden canvas first, so a dragged
+ * custom background falls back to its default position there.
+ */
+export function ExportPanel({ canvasRef, template, canvasProps, title, disabled, disabledLabel, onExport }: ExportPanelProps) {
+  const [presetKey, setPresetKey] = useState(DEFAULT_EXPORT_PRESET_KEY);
+  const preset = EXPORT_PRESETS.find((candidate) => candidate.key === presetKey) ?? EXPORT_PRESETS[0]!;
+  const [format, setFormat] = useState<ExportFormat>(preset.format);
+  const [quality, setQuality] = useState(0.92);
+  const [limitSize, setLimitSize] = useState(preset.maxBytes !== undefined);
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const offscreenRef = useRef<ThumbnailCanvasHandle>(null);
+  const [job, setJob] = useState<RenderJob | null>(null);
+  const jobRef = useRef<RenderJob | null>(null);
+
+  const handlePresetChange = (key: string) => {
+    const next = EXPORT_PRESETS.find((candidate) => candidate.key === key);
+    if (!next) return;
+    setPresetKey(next.key);
+    setFormat(next.format);
+    setLimitSize(next.maxBytes !== undefined);
+  };
+
+  const finishJob = useCallback((result: HTMLCanvasElement | Error) => {
+    const current = jobRef.current;
+    if (!current) return;
+    jobRef.current = null;
+    setJob(null);
+    if (result instanceof Error) current.reject(result);
+    else current.resolve(result);
+  }, []);
+
+  const handleOffscreenReady = useCallback(() => {
+    const current = jobRef.current;
+    if (!current) return;
+    const canvas = offscreenRef.current?.toCanvas(current.preset.width / current.template.width);
+    finishJob(canvas ?? new Error('Failed to draw the thumbnail.'));
+  }, [finishJob]);
+
+  const renderPreset = (target: ExportPreset) => {
+    const aspectRatio = target.width / target.height;
+    if (Math.abs(aspectRatio - template.width / template.height) < 0.01) {
+      const stage = canvasRef.current?.getStageInstance();
+      const canvas = stage ? canvasRef.current?.toCanvas(target.width / stage.width()) : null;
+      return canvas ? Promise.resolve(canvas) : Promise.reject(new Error('The editor canvas is not ready.'));
+    }
+
+    return new Promise<HTMLCanvasElement>((resolve, reject) => {
+      const nextJob = { preset: target, template: fitTemplateToAspectRatio(template, aspectRatio), resolve, reject };
+      jobRef.current = nextJob;
+      setJob(nextJob);
+      setTimeout(() => {
+        if (jobRef.current === nextJob) finishJob(new Error(`Timed out drawing the ${target.name} version.`));
+      }, RENDER_TIMEOUT_MS);
+    });
+  };
+
+  // The files are already saved, so a failing callback can't take the download with it
+  const notifyExported = () => {
+    try {
+      onExport();
+    } catch (error) {
+      console.error("Failed to record thumbnail export:", error);
+    }
+  };
+
+  const runExport = async (exportAll: boolean) => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      if (!exportAll) {
+        const options = { format, quality, maxBytes: limitSize ? YOUTUBE_THUMBNAIL_MAX_BYTES : null };
+        const blob = await encodeCanvas(await renderPreset(preset), options);
+        saveBlob(blob, getPresetFileName(title, preset, format));
+        if (options.maxBytes !== null && blob.size > options.maxBytes) {
+          setMessage({ text: `Saved at ${formatSize(blob.size)}, still over the ${formatSize(options.maxBytes)} limit.`, isError: true });
+        }
+        notifyExported();
+        return;
+      }
+
+      // Each preset in its own default format and size limit
+      const zip = new JSZip();
+      for (const target of EXPORT_PRESETS) {
+        const options = { format: target.format, quality, maxBytes: target.maxBytes ?? null };
+        zip.file(getPresetFileName(title, target, target.format), await encodeCanvas(await renderPreset(target), options));
+      }
+      saveBlob(await zip.generateAsync({ type: 'blob' }), `${title}-all-sizes.zip`);
+      notifyExported();
+    } catch (error) {
+      console.error("Failed to export thumbnail:", error);
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to export thumbnail.', isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex space-x-2">
+        <select
+          aria-label="Export size"
+          value={preset.key}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          className={`${selectClassName} flex-grow`}
+        >
+          {EXPORT_PRESETS.map((option) => <option key={option.key} value={option.key}>{option.name}</option>)}
+        </select>
+        <select
+          aria-label="Export format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className={selectClassName}
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((option) => (
+            <option key={option} value={option}>{EXPORT_FORMAT_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+      {format !== 'png' && (
+        <div className="flex items-center space-x-3">
+          <Label htmlFor="export-quality" className="text-xs text-indigo-200 whitespace-nowrap">Quality {Math.round(quality * 100)}%</Label>
+          <input
+            id="export-quality"
+            type="range"
+            min={MIN_QUALITY}
+            max={1}
+            step={0.01}
+            value={quality}
+            onChange={(e) => setQuality(Number(e.target.value))}
+            className="flex-grow accent-orange-400"
+          />
+          <input
+            id="export-limit-size"
+            type="checkbox"
+            checked={limitSize}
+            onChange={(e) => setLimitSize(e.target.checked)}
+            className="h-4 w-4 accent-orange-400"
+          />
+          <Label htmlFor="export-limit-size" className="text-xs text-indigo-200 whitespace-nowrap">Under 2MB</Label>
+        </div>
+      )}
+      <Button
+        onClick={() => void runExport(false)}
+        disabled={!!disabled || isExporting}
+        className='w-full bg-gradient-to-r from-pink-400 via-purple-400 to-orange-400 text-indigo-700 hover:text-indigo-900 hover:from-pink-500 hover:via-purple-500 hover:to-orange-500 text-lg font-semibold shadow-md hover:shadow-lg transition-all duration-150 transform hover:scale-105'
+      >
+        {disabled ? disabledLabel : isExporting ? 'Exporting...' : 'Download Thumbnail'}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => void runExport(true)}
+        disabled={!!disabled || isExporting}
+        className="w-full"
+      >
+        Download All Sizes (ZIP)
+      </Button>
+      {message && <p className={`text-xs ${message.isError ? 'text-red-400' : 'text-slate-400'}`}>{message.text}</p>}
+
+      {job && (
+        <div className="fixed top-0 -left-[10000px]" aria-hidden>
+          <ThumbnailCanvas
+            key={job.preset.key}
+            ref={offscreenRef}
+            {...canvasProps}
+            template={job.template}
+            canvasWidth={job.template.width}
+            canvasHeight={job.template.height}
+            onReady={handleOffscreenReady}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import { Label } from '~/components/ui/label';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { api } from '~/trpc/react';
+import { FONT_CONTENT_TYPES, type FontFaceDescriptor, type StoredFont } from '~/lib/fonts';
+
+interface FontManagerProps {
+  fonts: StoredFont[];
+}
+
+const selectClassName = 'bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-2 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+// "calibrib.ttf" -> "calibrib"; a starting point for the family name, which the user can correct
+const getDefaultFamily = (fileName: string) => fileName.replace(/\.[^.]+$/, '').replace(/[^\w -]/g, ' ').trim();
+
+/**
+ * Uploads and removes the fonts offered for text layers. Upload each weight and style of a family
+ * under the same family name, e.g. Calibri regular and Calibri bold.
+ */
+export function FontManager({ fonts }: FontManagerProps) {
+  const utils = api.useUtils();
+  const [file, setFile] = useState<File | null>(null);
+  const [family, setFamily] = useState('');
+  const [weight, setWeight] = useState<FontFaceDescriptor['weight']>('bold');
+  const [style, setStyle] = useState<FontFaceDescriptor['style']>('normal');
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const deleteMutation = api.font.delete.useMutation({ onSuccess: () => utils.font.list.invalidate() });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0] ?? null;
+    setFile(picked);
+    setUploadError(null);
+    if (picked && !family) setFamily(getDefaultFamily(picked.name));
+  };
+
+  const handleUpload = async () => {
+    if (!file || !family.trim()) return;
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const params = new URLSearchParams({ family: family.trim(), weight, style, fileName: file.name });
+      const response = await fetch(`/api/fonts?${params.toString()}`, { method: 'POST', body: file });
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        setUploadError(error ?? 'Failed to upload font.');
+        return;
+      }
+      setFile(null);
+      setFamily('');
+      await utils.font.list.invalidate();
+    } catch (error) {
+      console.error("Failed to upload font:", error);
+      setUploadError('Failed to upload font.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="font-upload" className='text-indigo-200'>Fonts</Label>
+      {fonts.length > 0 && (
+        <ul className="space-y-1">
+          {fonts.map((font) => (
+            <li key={font.id} className="flex items-center justify-between text-sm text-slate-300">
+              <span className="truncate" style={{ fontFamily: `"${font.family}"`, fontWeight: font.weight, fontStyle: font.style }}>
+                {font.family} <span className="text-xs text-slate-400">{font.weight} {font.style}</span>
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate({ id: font.id })}
+                disabled={deleteMutation.isPending}
+                className="h-6 px-2 text-xs text-red-300 hover:text-red-200"
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Input
+        id="font-upload"
+        type="file"
+        accept={Object.keys(FONT_CONTENT_TYPES).join(',')}
+        onChange={handleFileChange}
+        className="w-full text-sm text-slate-300 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:text-xs file:font-semibold file:bg-orange-400/20 file:text-orange-300 hover:file:bg-orange-400/30"
+      />
+      {file && (
+        <div className="space-y-2">
+          <Input
+            value={family}
+            onChange={(e) => setFamily(e.target.value)}
+            placeholder="Font name, e.g. Calibri"
+            className="h-8 bg-slate-700/50 border-indigo-500/50 text-slate-300 text-sm"
+          />
+          <div className="flex space-x-2">
+            <select value={weight} onChange={(e) => setWeight(e.target.value as FontFaceDescriptor['weight'])} className={selectClassName}>
+              <option value="normal">Regular</option>
+              <option value="bold">Bold</option>
+            </select>
+            <select value={style} onChange={(e) => setStyle(e.target.value as FontFaceDescriptor['style'])} className={selectClassName}>
+              <option value="normal">Upright</option>
+              <option value="italic">Italic</option>
+            </select>
+            <Button size="sm" onClick={handleUpload} disabled={!family.trim() || isUploading} className="flex-grow">
+              {isUploading ? 'Uploading...' : 'Upload'}
+            </Button>
+          </div>
+        </div>
+      )}
+      {uploadError && <p className="text-xs text-red-400">{uploadError}</p>}
+      <p className="text-xs text-slate-400">
+        Uploaded fonts are used by the editor and server renders alike. Upload Calibri Bold to make the built-in templates look the same on every machine.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import { Label } from '~/components/ui/label';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { api } from '~/trpc/react';
+import { LOGO_ANCHORS, LOGO_CONTENT_TYPES, type LogoAnchor, type LogoPlacement, type ThumbnailLogo } from '~/lib/logos';
+
+interface LogoManagerProps {
+  logo: ThumbnailLogo; // The logo selected for the thumbnail, whose placement is edited here
+  onUploaded: (key: string) => void;
+  onDeleted: (key: string) => void;
+}
+
+const selectClassName = 'w-full bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-2 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500';
+const numberClassName = 'h-8 bg-slate-700/50 border-indigo-500/50 text-slate-300 text-sm';
+
+// Safe box fields, edited as percentages of the drawn logo
+const SAFE_BOX_FIELDS = [
+  { key: 'x', label: 'Left' },
+  { key: 'y', label: 'Top' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' },
+] as const;
+
+/**
+ * Uploads logos and adjusts how the selected one sits in a template's logo box. Placement changes
+ * show on the canvas straight away and are saved as they're made; built-in logos are fixed.
+ */
+export function LogoManager({ logo, onUploaded, onDeleted }: LogoManagerProps) {
+  const utils = api.useUtils();
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const updateMutation = api.logo.update.useMutation({ onSettled: () => utils.logo.list.invalidate() });
+  const deleteMutation = api.logo.delete.useMutation({
+    onSuccess: async ({ id }) => {
+      onDeleted(id);
+      await utils.logo.list.invalidate();
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0] ?? null;
+    setFile(picked);
+    setUploadError(null);
+    if (picked && !name) setName(picked.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleUpload = async () => {
+    if (!file || !name.trim()) return;
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const params = new URLSearchParams({ name: name.trim(), fileName: file.name });
+      const response = await fetch(`/api/logos?${params.toString()}`, { method: 'POST', body: file });
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        setUploadError(error ?? 'Failed to upload logo.');
+        return;
+      }
+      const { key } = (await response.json()) as ThumbnailLogo;
+      setFile(null);
+      setName('');
+      await utils.logo.list.invalidate();
+      onUploaded(key);
+    } catch (error) {
+      console.error("Failed to upload logo:", error);
+      setUploadError('Failed to upload logo.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const updatePlacement = (change: Partial<LogoPlacement>) => {
+    const placement = { ...logo.placement, ...change };
+    // Shown on the canvas right away, while the save catches up
+    utils.logo.list.setData(undefined, (logos) =>
+      logos?.map((candidate) => (candidate.key === logo.key ? { ...candidate, placement } : candidate))
+    );
+    updateMutation.mutate({ id: logo.key, placement });
+  };
+
+  const setNumber = (update: (value: number) => Partial<LogoPlacement> | null) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Number(e.target.value);
+      if (e.target.value === '' || !Number.isFinite(value)) return;
+      const change = update(value);
+      if (change) updatePlacement(change);
+    };
+
+  const setSafeBox = (key: (typeof SAFE_BOX_FIELDS)[number]['key']) =>
+    setNumber((percent) => (percent >= 0 && percent <= 100 ? { safeBox: { ...logo.placement.safeBox, [key]: percent / 100 } } : null));
+
+  return (
+    <div className="space-y-2">
+      {logo.builtIn ? (
+        <p className="text-xs text-slate-400">Built-in logos have a fixed placement. Upload a logo to bring your own branding.</p>
+      ) : (
+        <div className="space-y-2 rounded-md bg-slate-700/40 p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold text-indigo-200">Placement: {logo.name}</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate({ id: logo.key })}
+              disabled={deleteMutation.isPending}
+              className="h-6 px-2 text-xs text-red-300 hover:text-red-200"
+            >
+              Remove
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="logo-anchor" className="text-xs text-indigo-200">Anchor</Label>
+              <select
+                id="logo-anchor"
+                value={logo.placement.anchor}
+                onChange={(e) => updatePlacement({ anchor: e.target.value as LogoAnchor })}
+                className={selectClassName}
+              >
+                {LOGO_ANCHORS.map((anchor) => <option key={anchor} value={anchor}>{anchor}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="logo-height" className="text-xs text-indigo-200">Height (% of box)</Label>
+              <Input
+                id="logo-height"
+                type="number"
+                min={1}
+                max={300}
+                value={Math.round(logo.placement.targetHeight * 100)}
+                onChange={setNumber((percent) => (percent > 0 && percent <= 300 ? { targetHeight: percent / 100 } : null))}
+                className={numberClassName}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="logo-offset-x" className="text-xs text-indigo-200">Offset X</Label>
+              <Input id="logo-offset-x" type="number" value={logo.placement.offsetX} onChange={setNumber((offsetX) => ({ offsetX }))} className={numberClassName} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="logo-offset-y" className="text-xs text-indigo-200">Offset Y</Label>
+              <Input id="logo-offset-y" type="number" value={logo.placement.offsetY} onChange={setNumber((offsetY) => ({ offsetY }))} className={numberClassName} />
+            </div>
+          </div>
+          <Label className="text-xs text-indigo-200">Safe box (% of logo, text stays clear of it)</Label>
+          <div className="grid grid-cols-4 gap-1">
+            {SAFE_BOX_FIELDS.map(({ key, label }) => (
+              <Input
+                key={key}
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(logo.placement.safeBox[key] * 100)}
+                onChange={setSafeBox(key)}
+                className={numberClassName}
+                aria-label={`Safe box ${label.toLowerCase()}`}
+                title={label}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Input
+        type="file"
+        accept={Object.keys(LOGO_CONTENT_TYPES).join(',')}
+        onChange={handleFileChange}
+        aria-label="Upload logo"
+        className="w-full text-sm text-slate-300 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:text-xs file:font-semibold file:bg-orange-400/20 file:text-orange-300 hover:file:bg-orange-400/30"
+      />
+      {file && (
+        <div className="flex space-x-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Logo name, e.g. Guest Channel"
+            className="h-8 bg-slate-700/50 border-indigo-500/50 text-slate-300 text-sm"
+          />
+          <Button size="sm" onClick={handleUpload} disabled={!name.trim() || isUploading}>
+            {isUploading ? 'Uploading...' : 'Upload'}
+          </Button>
+        </div>
+      )}
+      {uploadError && <p className="text-xs text-red-400">{uploadError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Label } from '~/components/ui/label';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { api } from '~/trpc/react';
+import type { ProjectSnapshot } from '~/lib/project';
+
+interface ProjectManagerProps {
+  getSnapshot: () => ProjectSnapshot;
+  onLoad: (snapshot: ProjectSnapshot) => void;
+  defaultName: string;
+  onCurrentProjectChange?: (projectId: string | null) => void; // Fired when a project is saved, opened or deleted
+}
+
+export function ProjectManager({ getSnapshot, onLoad, defaultName, onCurrentProjectChange }: ProjectManagerProps) {
+  const utils = api.useUtils();
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [selectedProjectId, setSelectedProjectId] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
+
+  useEffect(() => {
+    onCurrentProjectChange?.(currentProjectId);
+  }, [currentProjectId, onCurrentProjectChange]);
+
+  const { data: projects } = api.project.list.useQuery(undefined, { staleTime: 1000 * 60 });
+
+  const invalidateList = () => utils.project.list.invalidate();
+
+  const saveMutation = api.project.save.useMutation({
+    onSuccess: (project) => {
+      setCurrentProjectId(project.id);
+      setProjectName(project.name);
+      setSelectedProjectId(project.id);
+      void invalidateList();
+    },
+  });
+  const duplicateMutation = api.project.duplicate.useMutation({
+    onSuccess: (project) => {
+      setSelectedProjectId(project.id);
+      void invalidateList();
+    },
+  });
+  const deleteMutation = api.project.delete.useMutation({
+    onSuccess: ({ id }) => {
+      if (id === currentProjectId) setCurrentProjectId(null);
+      setSelectedProjectId('');
+      void invalidateList();
+    },
+  });
+
+  const handleSave = (asNew: boolean) => {
+    saveMutation.mutate({
+      id: asNew ? undefined : currentProjectId ?? undefined,
+      name: projectName.trim() || defaultName,
+      state: getSnapshot(),
+    });
+  };
+
+  const handleOpen = async () => {
+    if (!selectedProjectId) return;
+    setIsOpening(true);
+    try {
+      const project = await utils.project.load.fetch({ id: selectedProjectId });
+      onLoad(project.state);
+      setCurrentProjectId(project.id);
+      setProjectName(project.name);
+    } catch (error) {
+      console.error("Failed to open project:", error);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const isBusy = saveMutation.isPending || duplicateMutation.isPending || deleteMutation.isPending || isOpening;
+
+  return (
+    <div className="w-full space-y-2 bg-slate-800/50 p-4 rounded-xl border-2 border-indigo-400/30">
+      <Label htmlFor="project-name" className='text-indigo-200'>Project</Label>
+      <div className="flex space-x-2">
+        <Input
+          id="project-name"
+          type="text"
+          value={projectName}
+          onChange={(e) => setProjectName(e.target.value)}
+          placeholder={defaultName}
+          className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
+        />
+        <Button size="sm" onClick={() => handleSave(false)} disabled={isBusy}>
+          Save
+        </Button>
+        {currentProjectId && (
+          <Button size="sm" variant="outline" onClick={() => handleSave(true)} disabled={isBusy}>
+            Save as New
+          </Button>
+        )}
+      </div>
+      <div className="flex space-x-2">
+        <select
+          id="project-selection"
+          value={selectedProjectId}
+          onChange={(e) => setSelectedProjectId(e.target.value)}
+          className="flex-grow bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-3 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value="">Saved projects...</option>
+          {projects?.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name} ({format(new Date(project.updatedAt), 'P')})
+            </option>
+          ))}
+        </select>
+        <Button size="sm" variant="outline" onClick={handleOpen} disabled={!selectedProjectId || isBusy}>
+          Open
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => duplicateMutation.mutate({ id: selectedProjectId })}
+          disabled={!selectedProjectId || isBusy}
+        >
+          Duplicate
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={() => deleteMutation.mutate({ id: selectedProjectId })}
+          disabled={!selectedProjectId || isBusy}
+        >
+          Delete
+        </Button>
+      </div>
+      {saveMutation.isError && <p className="text-xs text-red-400">Failed to save project.</p>}
+    </div>
+  );
+}
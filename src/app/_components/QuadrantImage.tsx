@@ -3,65 +3,54 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Image as KonvaImage, Rect } from 'react-konva';
 import type Konva from 'konva';
-import { api } from '~/trpc/react'; // Import tRPC API hook
+import {
+  type CardCrop,
+  constrainPlacement,
+  cropToPlacement,
+  getCoverScale,
+  getProxiedImageUrl,
+  placementToCrop,
+} from '~/lib/thumbnail';
 
 interface QuadrantImageProps {
   src: string | null; // This will now be the original Scryfall URL
   width: number;
   height: number;
+  crop?: CardCrop | null; // Framing is owned by the parent so it survives swaps and reloads
+  onCropChange?: (crop: CardCrop) => void;
+  onLoadingChange?: (isLoading: boolean) => void;
 }
 
 const QuadrantImage: React.FC<QuadrantImageProps> = ({
   src: originalSrc,
   width,
   height,
+  crop,
+  onCropChange,
+  onLoadingChange,
 }) => {
   const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
   const imageRef = useRef<Konva.Image>(null);
-  const [imgPos, setImgPos] = useState({ x: 0, y: 0 });
-  const [imgScale, setImgScale] = useState({ scaleX: 1, scaleY: 1 });
-
-  // Use tRPC query to get proxied image data as base64
-  const { data: proxiedImageData, isLoading, error: proxyError } = api.scryfall.proxyImage.useQuery(
-    { imageUrl: originalSrc! }, // Assert originalSrc is not null due to 'enabled' flag
-    { 
-      enabled: !!originalSrc, // Only run query if originalSrc is provided
-      staleTime: Infinity, // Proxied image data is unlikely to change for the same URL
-      retry: 1, // Retry once on failure
-    }
-  );
+  // Kept in a ref so a new callback each render doesn't reload the image
+  const onLoadingChangeRef = useRef(onLoadingChange);
+  onLoadingChangeRef.current = onLoadingChange;
 
   useEffect(() => {
-    if (proxyError) {
-      console.error("Failed to proxy image:", originalSrc, proxyError);
+    if (!originalSrc) {
       setImage(null);
       return;
     }
-    if (!proxiedImageData || isLoading) {
-      // Still loading or no data yet, or src was cleared
-      if (!originalSrc) setImage(null); // Explicitly clear if originalSrc is nullified
-      return;
-    }
 
+    // Served same-origin from the server's image cache, so drawing it doesn't taint the canvas
     const img = new window.Image();
-    img.src = proxiedImageData; // Use base64 data from tRPC
-    // crossOrigin = 'Anonymous' is not needed for data URIs
+    img.src = getProxiedImageUrl(originalSrc);
+    setIsLoading(true);
+    onLoadingChangeRef.current?.(true);
     img.onload = () => {
       setImage(img);
-      const aspectRatio = img.width / img.height;
-      const quadrantAspectRatio = width / height;
-      let initialScale = 1;
-      let initialX = 0;
-      let initialY = 0;
-      if (aspectRatio > quadrantAspectRatio) {
-        initialScale = height / img.height;
-        initialX = (width - img.width * initialScale) / 2;
-      } else {
-        initialScale = width / img.width;
-        initialY = (height - img.height * initialScale) / 2;
-      }
-      setImgPos({ x: initialX, y: initialY });
-      setImgScale({ scaleX: initialScale, scaleY: initialScale });
+      setIsLoading(false);
+      onLoadingChangeRef.current?.(false);
        // Ensure the Konva image updates if it was already rendered
       if (imageRef.current) {
         imageRef.current.cache(); // Clear cache and redraw
@@ -69,46 +58,43 @@ const QuadrantImage: React.FC<QuadrantImageProps> = ({
       }
     };
     img.onerror = () => {
-      console.error("Failed to load image from proxied data:", originalSrc);
+      console.error("Failed to load proxied image:", originalSrc);
       setImage(null);
+      setIsLoading(false);
+      onLoadingChangeRef.current?.(false);
     };
     return () => {
         img.onload = null;
         img.onerror = null;
+        onLoadingChangeRef.current?.(false);
     };
-  }, [proxiedImageData, isLoading, proxyError, originalSrc, width, height]);
+  }, [originalSrc]);
 
   const clipFunc = (ctx: Konva.Context) => {
     ctx.rect(0, 0, width, height);
   };
 
-  const constrainPosition = (newX: number, newY: number, scaledWidth: number, scaledHeight: number) => {
-    if (newX > 0) newX = 0;
-    if (newX + scaledWidth < width) newX = width - scaledWidth;
-    if (newY > 0) newY = 0;
-    if (newY + scaledHeight < height) newY = height - scaledHeight;
-    
-    if (scaledWidth < width) newX = (width - scaledWidth) / 2;
-    if (scaledHeight < height) newY = (height - scaledHeight) / 2;
-    
-    return { x: newX, y: newY };
-  };
+  const placement = image ? cropToPlacement(crop, image.width, image.height, width, height) : null;
 
   const handleDragMove = (e: Konva.KonvaEventObject<DragEvent>) => {
+    if (!image) return;
     const node = e.target as Konva.Image;
-    const scaledWidth = (image?.width ?? 0) * node.scaleX();
-    const scaledHeight = (image?.height ?? 0) * node.scaleY();
-    
-    const constrainedPos = constrainPosition(node.x(), node.y(), scaledWidth, scaledHeight);
-    
-    node.position(constrainedPos);
-    setImgPos(constrainedPos);
+    const constrained = constrainPlacement(
+      { x: node.x(), y: node.y(), scale: node.scaleX() },
+      image.width,
+      image.height,
+      width,
+      height
+    );
+
+    node.position({ x: constrained.x, y: constrained.y });
+    onCropChange?.(placementToCrop(constrained, image.width, image.height, width, height));
   };
 
   const handleWheel = (e: Konva.KonvaEventObject<WheelEvent>) => {
     e.evt.preventDefault();
     const stage = e.target.getStage();
-    if (!stage || !imageRef.current || !image) return;
+    if (!stage || !imageRef.current || !image || !onCropChange) return;
 
     const scaleBy = 1.1;
     const oldScale = imageRef.current.scaleX();
@@ -122,24 +108,21 @@ const QuadrantImage: React.FC<QuadrantImageProps> = ({
     };
 
     const newScale = e.evt.deltaY > 0 ? oldScale / scaleBy : oldScale * scaleBy;
-    const minScaleX = width / image.width;
-    const minScaleY = height / image.height;
-    const actualMinScale = Math.max(minScaleX, minScaleY);
-    const effectiveNewScale = Math.max(newScale, actualMinScale);
-
-    const newPos = {
-      x: pointerRelativeToGroup.x - mousePointTo.x * effectiveNewScale,
-      y: pointerRelativeToGroup.y - mousePointTo.y * effectiveNewScale,
-    };
-    
-    const scaledWidth = image.width * effectiveNewScale;
-    const scaledHeight = image.height * effectiveNewScale;
-    const constrainedPos = constrainPosition(newPos.x, newPos.y, scaledWidth, scaledHeight);
-
-    imageRef.current.scale({ x: effectiveNewScale, y: effectiveNewScale });
-    imageRef.current.position(constrainedPos);
-    setImgScale({ scaleX: effectiveNewScale, scaleY: effectiveNewScale });
-    setImgPos(constrainedPos);
+    const effectiveNewScale = Math.max(newScale, getCoverScale(image.width, image.height, width, height));
+
+    const constrained = constrainPlacement(
+      {
+        x: pointerRelativeToGroup.x - mousePointTo.x * effectiveNewScale,
+        y: pointerRelativeToGroup.y - mousePointTo.y * effectiveNewScale,
+        scale: effectiveNewScale,
+      },
+      image.width,
+      image.height,
+      width,
+      height
+    );
+
+    onCropChange(placementToCrop(constrained, image.width, image.height, width, height));
   };
 
   // Determine what to render
@@ -156,18 +139,18 @@ const QuadrantImage: React.FC<QuadrantImageProps> = ({
   }
   
   // If image is loaded, render it
-  if (image) {
+  if (image && placement) {
     return (
       <KonvaImage
         ref={imageRef}
         image={image} // This is HTMLImageElement
-        x={imgPos.x}
-        y={imgPos.y}
+        x={placement.x}
+        y={placement.y}
         width={image.width}
         height={image.height}
-        scaleX={imgScale.scaleX}
-        scaleY={imgScale.scaleY}
-        draggable
+        scaleX={placement.scale}
+        scaleY={placement.scale}
+        draggable={!!onCropChange}
         onDragMove={handleDragMove}
         onWheel={handleWheel}
         clipFunc={clipFunc}
@@ -0,0 +1,139 @@
+'use client';
+
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Label } from '~/components/ui/label';
+import { TEXT_FONT_SIZE_MIN } from '~/lib/thumbnail';
+import { type TextCase, type TextLayer, type TextLayerStyle, applyTextLayerStyle } from '~/lib/template';
+import { toHexColor } from '~/lib/themes';
+
+interface TextLayerPanelProps {
+  layer: TextLayer;
+  style: TextLayerStyle | undefined;
+  fontFamilies: string[]; // Font stacks to offer, uploaded fonts included
+  onChange: (style: TextLayerStyle) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const TEXT_CASE_LABELS: Record<TextCase, string> = {
+  upper: 'UPPERCASE',
+  lower: 'lowercase',
+  none: 'As typed',
+};
+
+const selectClassName = 'w-full bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-3 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500';
+const numberClassName = 'h-8 bg-slate-700/50 border-indigo-500/50 text-slate-300 text-sm';
+
+/**
+ * Style controls for the text layer selected on the canvas. Moving and resizing happen on the
+ * canvas itself; every change is stored on top of the template's own styling for this thumbnail.
+ */
+export function TextLayerPanel({ layer, style, fontFamilies: availableFontFamilies, onChange, onReset, onClose }: TextLayerPanelProps) {
+  const region = applyTextLayerStyle(layer.region, style);
+  const textCase = region.textCase ?? (region.uppercase ? 'upper' : 'none');
+  const fontFamilies = availableFontFamilies.includes(region.fontFamily)
+    ? availableFontFamilies
+    : [region.fontFamily, ...availableFontFamilies];
+
+  const setNumber = (key: 'fontSize' | 'strokeWidth' | 'shadowBlur' | 'letterSpacing', min: number) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = Number(e.target.value);
+      if (e.target.value !== '' && Number.isFinite(value) && value >= min) onChange({ [key]: value });
+    };
+
+  return (
+    <div className="w-full space-y-3 rounded-md bg-slate-700/40 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold text-indigo-200">Text: {layer.label}</p>
+        <div className="flex space-x-1">
+          <Button variant="ghost" size="sm" onClick={onReset} disabled={!style} className="h-7 px-2 text-xs text-indigo-300 hover:text-indigo-200">
+            Reset
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-7 px-2 text-xs text-slate-300 hover:text-slate-100">
+            Done
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="col-span-2 space-y-1">
+          <Label htmlFor="text-font" className="text-xs text-indigo-200">Font</Label>
+          <select
+            id="text-font"
+            value={region.fontFamily}
+            onChange={(e) => onChange({ fontFamily: e.target.value })}
+            className={selectClassName}
+          >
+            {fontFamilies.map((font) => (
+              <option key={font} value={font}>{font.split(',')[0]?.replace(/"/g, '')}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="text-size" className="text-xs text-indigo-200">
+            {region.minFontSize !== undefined ? 'Max size' : 'Size'}
+          </Label>
+          <Input id="text-size" type="number" min={1} value={region.fontSize} onChange={setNumber('fontSize', 1)} className={numberClassName} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="text-spacing" className="text-xs text-indigo-200">Letter spacing</Label>
+          <Input id="text-spacing" type="number" step={0.5} value={region.letterSpacing} onChange={setNumber('letterSpacing', -20)} className={numberClassName} />
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="text-fill" className="text-xs text-indigo-200">Fill</Label>
+          <input id="text-fill" type="color" value={toHexColor(region.fill)} onChange={(e) => onChange({ fill: e.target.value })} className="h-8 w-full rounded-md bg-transparent" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="text-stroke" className="text-xs text-indigo-200">Stroke</Label>
+          <div className="flex space-x-1">
+            <input id="text-stroke" type="color" value={toHexColor(region.stroke)} onChange={(e) => onChange({ stroke: e.target.value })} className="h-8 w-10 rounded-md bg-transparent" />
+            <Input type="number" min={0} step={0.1} value={region.strokeWidth} onChange={setNumber('strokeWidth', 0)} className={numberClassName} aria-label="Stroke width" />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="text-shadow" className="text-xs text-indigo-200">Shadow</Label>
+          <div className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={!!region.shadowColor}
+              onChange={(e) => onChange(e.target.checked ? { shadowColor: '#000000', shadowBlur: region.shadowBlur || 8 } : { shadowColor: null })}
+              className="h-4 w-4 accent-orange-400"
+              aria-label="Show shadow"
+            />
+            {region.shadowColor && (
+              <>
+                <input id="text-shadow" type="color" value={toHexColor(region.shadowColor)} onChange={(e) => onChange({ shadowColor: e.target.value })} className="h-8 w-10 rounded-md bg-transparent" />
+                <Input type="number" min={0} value={region.shadowBlur} onChange={setNumber('shadowBlur', 0)} className={numberClassName} aria-label="Shadow blur" />
+              </>
+            )}
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="text-case" className="text-xs text-indigo-200">Case</Label>
+          <select id="text-case" value={textCase} onChange={(e) => onChange({ textCase: e.target.value as TextCase })} className={selectClassName}>
+            {(Object.keys(TEXT_CASE_LABELS) as TextCase[]).map((value) => (
+              <option key={value} value={value}>{TEXT_CASE_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          id="text-auto-fit"
+          type="checkbox"
+          checked={region.minFontSize !== undefined}
+          onChange={(e) => onChange({ autoFit: e.target.checked })}
+          className="h-4 w-4 accent-orange-400"
+        />
+        <Label htmlFor="text-auto-fit" className="text-xs text-indigo-200">
+          Shrink to fit the box (down to {region.minFontSize ?? Math.min(TEXT_FONT_SIZE_MIN, region.fontSize)}px)
+        </Label>
+      </div>
+    </div>
+  );
+}
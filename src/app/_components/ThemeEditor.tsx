@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { Label } from '~/components/ui/label';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { api } from '~/trpc/react';
+import { type ThemeDefinition, type ThumbnailTheme, toHexColor } from '~/lib/themes';
+
+interface ThemeEditorProps {
+  theme: ThumbnailTheme; // Starting point; built-in themes are saved as a new theme
+  onPreview: (definition: ThemeDefinition) => void; // Shows unsaved changes on the canvas
+  onSaved: (key: string) => void;
+  onDeleted: (key: string) => void;
+  onClose: () => void;
+}
+
+const numberClassName = 'h-8 bg-slate-700/50 border-indigo-500/50 text-slate-300 text-sm';
+const selectClassName = 'bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-2 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+// "Pro Tour Weekend" -> "pro-tour-weekend"
+const toThemeKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Color swatch for one theme field
+function ColorField({ id, label, value, onChange }: { id: string; label: string; value: string; onChange: (color: string) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-indigo-200">{label}</Label>
+      <input id={id} type="color" value={toHexColor(value)} onChange={(e) => onChange(e.target.value)} className="h-8 w-full rounded-md bg-transparent" />
+    </div>
+  );
+}
+
+/**
+ * Creates and edits brand themes. Changes preview on the canvas as they're made and apply to
+ * every template once saved.
+ */
+export function ThemeEditor({ theme, onPreview, onSaved, onDeleted, onClose }: ThemeEditorProps) {
+  const utils = api.useUtils();
+  const [name, setName] = useState(theme.builtIn ? '' : theme.name);
+  const [definition, setDefinition] = useState(theme.definition);
+  const key = theme.builtIn ? toThemeKey(name) : theme.key;
+
+  const saveMutation = api.theme.save.useMutation({
+    onSuccess: async (saved) => {
+      await utils.theme.list.invalidate();
+      onSaved(saved.key);
+    },
+  });
+  const deleteMutation = api.theme.delete.useMutation({
+    onSuccess: async ({ key: deleted }) => {
+      await utils.theme.list.invalidate();
+      onDeleted(deleted);
+    },
+  });
+
+  const update = (change: Partial<ThemeDefinition>) => {
+    const next = { ...definition, ...change };
+    setDefinition(next);
+    onPreview(next);
+  };
+
+  const setWidth = (field: 'borderWidth' | 'dividerWidth') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Number(e.target.value);
+    if (e.target.value !== '' && Number.isFinite(value) && value >= 0 && value <= 50) update({ [field]: value });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md bg-slate-700/40 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold text-indigo-200">{theme.builtIn ? `New theme from ${theme.name}` : `Edit ${theme.name}`}</p>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-7 px-2 text-xs text-slate-300 hover:text-slate-100">
+          Cancel
+        </Button>
+      </div>
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Theme name, e.g. Pro Tour Weekend"
+        className="h-8 bg-slate-700/50 border-indigo-500/50 text-slate-300 text-sm"
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <ColorField id="theme-bar" label="Bar" value={definition.barColor} onChange={(barColor) => update({ barColor })} />
+        <div className="space-y-1">
+          <Label htmlFor="theme-bar-opacity" className="text-xs text-indigo-200">Bar opacity {Math.round(definition.barOpacity * 100)}%</Label>
+          <input
+            id="theme-bar-opacity"
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={definition.barOpacity}
+            onChange={(e) => update({ barOpacity: Number(e.target.value) })}
+            className="h-8 w-full accent-orange-400"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          id="theme-gradient"
+          type="checkbox"
+          checked={definition.barGradientTo !== null}
+          onChange={(e) => update({ barGradientTo: e.target.checked ? definition.barColor : null })}
+          className="h-4 w-4 accent-orange-400"
+        />
+        <Label htmlFor="theme-gradient" className="text-xs text-indigo-200">Gradient</Label>
+        {definition.barGradientTo !== null && (
+          <>
+            <input
+              type="color"
+              value={toHexColor(definition.barGradientTo)}
+              onChange={(e) => update({ barGradientTo: e.target.value })}
+              className="h-8 w-10 rounded-md bg-transparent"
+              aria-label="Gradient end color"
+            />
+            <select
+              value={definition.barGradientDirection}
+              onChange={(e) => update({ barGradientDirection: e.target.value as ThemeDefinition['barGradientDirection'] })}
+              className={selectClassName}
+              aria-label="Gradient direction"
+            >
+              <option value="horizontal">Left to right</option>
+              <option value="vertical">Top to bottom</option>
+            </select>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <ColorField id="theme-border" label="Border" value={definition.borderColor} onChange={(borderColor) => update({ borderColor })} />
+        <div className="space-y-1">
+          <Label htmlFor="theme-border-width" className="text-xs text-indigo-200">Border width</Label>
+          <Input id="theme-border-width" type="number" min={0} max={50} value={definition.borderWidth} onChange={setWidth('borderWidth')} className={numberClassName} />
+        </div>
+        <ColorField id="theme-divider" label="Dividers" value={definition.dividerColor} onChange={(dividerColor) => update({ dividerColor })} />
+        <div className="space-y-1">
+          <Label htmlFor="theme-divider-width" className="text-xs text-indigo-200">Divider width</Label>
+          <Input id="theme-divider-width" type="number" min={0} max={50} value={definition.dividerWidth} onChange={setWidth('dividerWidth')} className={numberClassName} />
+        </div>
+        <ColorField id="theme-text" label="Text" value={definition.textColor} onChange={(textColor) => update({ textColor })} />
+        <ColorField id="theme-text-stroke" label="Text outline" value={definition.textStrokeColor} onChange={(textStrokeColor) => update({ textStrokeColor })} />
+      </div>
+
+      <div className="flex space-x-2">
+        <Button
+          size="sm"
+          onClick={() => saveMutation.mutate({ key, name: name.trim(), definition })}
+          disabled={!key || !name.trim() || saveMutation.isPending}
+          className="flex-grow"
+        >
+          {saveMutation.isPending ? 'Saving...' : 'Save Theme'}
+        </Button>
+        {!theme.builtIn && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => deleteMutation.mutate({ key: theme.key })}
+            disabled={deleteMutation.isPending}
+            className="text-red-300 hover:text-red-200"
+          >
+            Delete
+          </Button>
+        )}
+      </div>
+      {saveMutation.error && <p className="text-xs text-red-400">{saveMutation.error.message}</p>}
+    </div>
+  );
+}
@@ -1,184 +1,131 @@
 'use client';
 
-import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
-import { Stage, Layer, Rect, Line, Text as KonvaText, Image as KonvaImage, Group } from 'react-konva';
+import React, { useCallback, useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
+import { Stage, Layer, Rect, Line, Text as KonvaText, Image as KonvaImage, Group, Transformer } from 'react-konva';
 import type Konva from 'konva'; // Import Konva namespace for types if needed, or direct class usage
 import QuadrantImage from './QuadrantImage'; // Import the new component
-import type { ThumbnailType } from '../page'; // Import ThumbnailType
-
-interface ThumbnailCanvasProps {
+import {
+  type CardSlot,
+  type CardCrop,
+  type TextMeasureContext,
+  CANVAS_WIDTH_DEFAULT,
+  CANVAS_HEIGHT_DEFAULT,
+} from '~/lib/thumbnail';
+import {
+  type TemplateDefinition,
+  type TemplateRegion,
+  type TextLayerStyle,
+  type TextLayerStyles,
+  applyTextLayerStyles,
+  getRegionText,
+  resolveFontSize,
+} from '~/lib/template';
+import { type ThumbnailLogo, fitTextAroundLogo, getLogoRect } from '~/lib/logos';
+import { type ThemeDefinition, applyTheme, getBarGradientPoints } from '~/lib/themes';
+
+export interface ThumbnailCanvasProps {
+  template: TemplateDefinition;
   leftDeckName: string;
   rightDeckName: string;
-  topLeftArtUrl: string | null;
-  bottomLeftArtUrl: string | null;
-  topRightArtUrl: string | null;
-  bottomRightArtUrl: string | null;
+  artUrls: Partial<Record<CardSlot, string | null>>;
   canvasWidth?: number;
   canvasHeight?: number;
-  selectedLogo: 'default' | 'ocho';
-  thumbnailType: ThumbnailType;
+  logo: ThumbnailLogo;
+  theme?: ThemeDefinition; // Bars, borders and text keep the template's own styling without one
   streamDate?: string;
   eventName?: string;
   bottomText?: string;
   customBgUrl?: string | null;
   customBgScale?: number;
+  crops?: Partial<Record<CardSlot, CardCrop | null>>;
+  onCropChange?: (slot: CardSlot, crop: CardCrop) => void;
+  textStyles?: TextLayerStyles;
+  // Text layers can only be selected, moved and resized when these are given
+  selectedTextLayer?: string | null;
+  onSelectTextLayer?: (key: string | null) => void;
+  onTextStyleChange?: (key: string, style: TextLayerStyle) => void;
+  fontsVersion?: number; // Bump when fonts finish loading so text is measured again with them
+  onReady?: () => void; // Called whenever every image (art, logo, background) has finished loading
 }
 
 export interface ThumbnailCanvasHandle {
   getStageInstance: () => Konva.Stage | null;
+  // The stage drawn onto a new canvas, without the text layer selection handles
+  toCanvas: (pixelRatio: number) => HTMLCanvasElement | null;
 }
 
-const CANVAS_WIDTH_DEFAULT = 960; // 1920 / 2
-const CANVAS_HEIGHT_DEFAULT = 540; // 1080 / 2
-const PURPLE_BAR_HEIGHT = 98; // Adjust as needed
-const PURPLE_COLOR = '#6A0DAD'; // Example purple, adjust to match reference
-const TEXT_COLOR = 'white';
-const TEXT_STROKE_COLOR = 'black';
-const TEXT_FONT_FAMILY = 'Calibri, sans-serif'; // Bold, impactful font
-const TEXT_FONT_SIZE_MAX = 48; // Maximum font size
-const TEXT_FONT_SIZE_MIN = 24; // Minimum font size
-
-// Define fixed logo dimensions on the canvas
-const TARGET_LOGO_HEIGHT = 294; // Target height for the logo
-
-// Helper function to calculate optimal font size for multi-line text that fits within given width and height
-const calculateOptimalFontSize = (
-  text: string,
-  maxWidth: number,
-  maxHeight: number,
-  maxFontSize: number = TEXT_FONT_SIZE_MAX,
-  minFontSize: number = TEXT_FONT_SIZE_MIN,
-  fontFamily: string = TEXT_FONT_FAMILY,
-  fontStyle = 'bold'
-): number => {
+// Shared 2D context for measuring text while auto-fitting font sizes
+let measureContext: TextMeasureContext | null = null;
+const getMeasureContext = () => {
   // Check if we're running on the client side
-  if (typeof document === 'undefined') {
-    return maxFontSize; // Return max font size for SSR
-  }
-
-  // Create a temporary canvas to measure text
-  const canvas = document.createElement('canvas');
-  const context = canvas.getContext('2d');
-  if (!context) return maxFontSize;
-
-  // Helper function to simulate word wrapping and calculate total height
-  const calculateTextHeight = (fontSize: number): number => {
-    context.font = `${fontStyle} ${fontSize}px ${fontFamily}`;
-    const words = text.split(' ');
-    const lines: string[] = [];
-    let currentLine = '';
-
-    for (const word of words) {
-      const testLine = currentLine ? `${currentLine} ${word}` : word;
-      const testWidth = context.measureText(testLine).width;
-
-      if (testWidth <= maxWidth) {
-        currentLine = testLine;
-      } else {
-        if (currentLine) {
-          lines.push(currentLine);
-          currentLine = word;
-        } else {
-          // Single word is too wide, use it anyway
-          lines.push(word);
-          currentLine = '';
-        }
-      }
-    }
-
-    if (currentLine) {
-      lines.push(currentLine);
-    }
-
-    // Calculate total height: number of lines * line height
-    // Line height is typically 1.2 times the font size
-    const lineHeight = fontSize * 1.2;
-    return lines.length * lineHeight;
-  };
-
-  // Binary search for optimal font size
-  let low = minFontSize;
-  let high = maxFontSize;
-  let optimalSize = maxFontSize;
-
-  while (low <= high) {
-    const mid = Math.floor((low + high) / 2);
-    const textHeight = calculateTextHeight(mid);
-
-    if (textHeight <= maxHeight) {
-      optimalSize = mid;
-      low = mid + 1;
-    } else {
-      high = mid - 1;
-    }
-  }
-
-  return optimalSize;
+  if (typeof document === 'undefined') return null;
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  return measureContext;
 };
 
-interface LogoDetails {
-  image: HTMLImageElement;
-  calculatedWidth: number;
-}
-
 const ThumbnailCanvas = forwardRef<ThumbnailCanvasHandle, ThumbnailCanvasProps>((
   {
+    template,
     leftDeckName,
     rightDeckName,
-    topLeftArtUrl,
-    bottomLeftArtUrl,
-    topRightArtUrl,
-    bottomRightArtUrl,
+    artUrls,
     canvasWidth = CANVAS_WIDTH_DEFAULT,
     canvasHeight = CANVAS_HEIGHT_DEFAULT,
-    selectedLogo,
-    thumbnailType,
+    logo,
+    theme,
     streamDate,
     eventName,
     bottomText,
     customBgUrl, // New prop for custom background URL
     customBgScale, // New prop for custom background scale
+    crops,
+    onCropChange,
+    textStyles,
+    selectedTextLayer,
+    onSelectTextLayer,
+    onTextStyleChange,
+    fontsVersion,
+    onReady,
   },
   ref
 ) => {
   const stageRef = useRef<Konva.Stage>(null);
-  
-  const [defaultLogoDetails, setDefaultLogoDetails] = useState<LogoDetails | null>(null);
-  const [ochoLogoDetails, setOchoLogoDetails] = useState<LogoDetails | null>(null);
+  const transformerRef = useRef<Konva.Transformer>(null);
+  const textNodeRefs = useRef(new Map<string, Konva.Text>());
+  const isTextEditable = !!onSelectTextLayer && !!onTextStyleChange;
+
+  // Images still loading, tracked in a ref so children's load effects register before ours check it
+  const pendingLoads = useRef(new Set<string>());
+  const [loadCount, setLoadCount] = useState(0);
+  const trackLoading = useCallback((key: string, isLoading: boolean) => {
+    if (isLoading) pendingLoads.current.add(key);
+    else pendingLoads.current.delete(key);
+    setLoadCount((count) => count + 1);
+  }, []);
 
-  const loadLogo = (url: string, setLogoDetails: React.Dispatch<React.SetStateAction<LogoDetails | null>>, isOcho = false) => {
+  const [logoImage, setLogoImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    const url = logo.src;
     const img = new window.Image();
     img.src = url;
     img.crossOrigin = 'Anonymous';
+    trackLoading('logo', true);
     img.onload = () => {
-      let scaledWidth = TARGET_LOGO_HEIGHT;
-      if (img.naturalWidth && img.naturalHeight) {
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        scaledWidth = TARGET_LOGO_HEIGHT * aspectRatio;
-      }
-      setLogoDetails({ image: img, calculatedWidth: scaledWidth });
+      setLogoImage(img);
+      trackLoading('logo', false);
     };
     img.onerror = () => {
-      console.error(`Failed to load ${isOcho ? 'OCHO' : 'default'} logo image:`, url);
-      setLogoDetails(null);
+      console.error(`Failed to load ${logo.name} logo image:`, url);
+      setLogoImage(null);
+      trackLoading('logo', false);
     };
-  };
-
-  useEffect(() => {
-    if (selectedLogo === 'default') {
-      loadLogo('/logo_512.png', setDefaultLogoDetails);
-    } else {
-      setDefaultLogoDetails(null);
-    }
-  }, [selectedLogo]);
-
-  useEffect(() => {
-    if (selectedLogo === 'ocho') {
-      loadLogo('/ocho_logo_512.png', setOchoLogoDetails, true);
-    } else {
-      setOchoLogoDetails(null);
-    }
-  }, [selectedLogo]);
+    return () => {
+      img.onload = null;
+      img.onerror = null;
+      trackLoading('logo', false);
+    };
+  }, [logo.name, logo.src, trackLoading]);
 
   // Custom background logic
   const [bgImageObj, setBgImageObj] = useState<HTMLImageElement | null>(null);
@@ -189,118 +136,195 @@ const ThumbnailCanvas = forwardRef<ThumbnailCanvasHandle, ThumbnailCanvasProps>(
     }
     const img = new window.Image();
     img.src = customBgUrl;
-    img.onload = () => setBgImageObj(img);
-  }, [customBgUrl]);
-
-  // Dimensions for elements
-  const middleX = canvasWidth / 2;
-  const middleY = canvasHeight / 2;
-  const purpleBarY = middleY - PURPLE_BAR_HEIGHT / 2;
-
-  // Quadrant dimensions
-  const quadrantWidth = canvasWidth / 2;
-  const quadrantHeight = canvasHeight / 2;
-
-  // Determine logo to display and its properties
-  const logoToDisplay = ochoLogoDetails ?? defaultLogoDetails;
-
-  // Default logo position calculations (used for text layout and default logo rendering)
-  const defaultLogoLayoutWidth = defaultLogoDetails?.calculatedWidth ?? TARGET_LOGO_HEIGHT; // Fallback for layout if default not loaded
-  const defaultLogoCenteredX = middleX - defaultLogoLayoutWidth / 2;
-  const logoYOffsetConstant = 18; // Original offset for default logo
-  const defaultLogoCenteredY = purpleBarY - PURPLE_BAR_HEIGHT / 2 + logoYOffsetConstant;
-
-  // Dynamic text width calculation based on default logo's centered position
-  const deckNameTextPadding = 20;
-  const leftTextWidth = defaultLogoCenteredX - deckNameTextPadding * 2;
-  const rightTextX = defaultLogoCenteredX + defaultLogoLayoutWidth + deckNameTextPadding;
-  const rightTextWidth = canvasWidth - rightTextX - deckNameTextPadding;
-
-  // Calculate optimal font sizes for deck names
-  const leftDeckOptimalFontSize = calculateOptimalFontSize(
-    leftDeckName.toUpperCase(),
-    leftTextWidth,
-    PURPLE_BAR_HEIGHT,
-    TEXT_FONT_SIZE_MAX,
-    TEXT_FONT_SIZE_MIN
-  );
-  
-  const rightDeckOptimalFontSize = calculateOptimalFontSize(
-    rightDeckName.toUpperCase(),
-    rightTextWidth,
-    PURPLE_BAR_HEIGHT,
-    TEXT_FONT_SIZE_MAX,
-    TEXT_FONT_SIZE_MIN
-  );
-
-  // Dynamically size event name font based on length
-  const getEventFontSize = (name: string) => {
-    if (!name) return TEXT_FONT_SIZE_MAX * 0.8;
-    const base = TEXT_FONT_SIZE_MAX * 0.8;
-    if (name.length <= 10) return base;
-    if (name.length <= 18) return base * 0.9;
-    if (name.length <= 28) return base * 0.8;
-    return base * 0.7;
-  };
-
-  const streamTexts = [
-    {
-      text: (streamDate ?? '').toUpperCase(),
-      y: middleY - 200,
-      fontSize: TEXT_FONT_SIZE_MAX * 1.2,
-      strokeWidth: 2,
-    },
-    {
-      text: (eventName ?? 'MODERN FNM').toUpperCase(),
-      y: middleY - 120,
-      fontSize: TEXT_FONT_SIZE_MAX * 0.9,
-      strokeWidth: 1.8,
-    },
-    {
-      text: (bottomText ?? 'LIVE!').toUpperCase(),
-      y: middleY + 190,
-      fontSize: TEXT_FONT_SIZE_MAX * 1.5,
-      strokeWidth: 2.5,
-    },
-  ];
-
-  // Determine final X and Y for the logo to be rendered
-  let finalLogoX: number;
-  let finalLogoY: number;
-
-  if (logoToDisplay) { // Check if there is any logo to display
-    finalLogoX = middleX - logoToDisplay.calculatedWidth / 2;
-    if (selectedLogo === 'ocho') {
-      // OCHO logo renders 20 pixels higher than default
-      finalLogoY = defaultLogoCenteredY - 21;
-    } else {
-      // Default logo position
-      finalLogoY = defaultLogoCenteredY;
-    }
-  } else {
-    // Should not happen if logic is correct, but provide fallbacks
-    finalLogoX = middleX;
-    finalLogoY = middleY;
-  }
+    trackLoading('background', true);
+    img.onload = () => {
+      setBgImageObj(img);
+      trackLoading('background', false);
+    };
+    img.onerror = () => trackLoading('background', false);
+    return () => {
+      img.onload = null;
+      img.onerror = null;
+      trackLoading('background', false);
+    };
+  }, [customBgUrl, trackLoading]);
 
   useEffect(() => {
-    // You can access the stage instance via stageRef.current here if needed
-    // For example, to re-draw or update layers manually, though react-konva handles most of this.
-  }, [leftDeckName, rightDeckName, canvasWidth, canvasHeight]);
+    if (pendingLoads.current.size === 0) onReady?.();
+  }, [loadCount, onReady]);
 
   useImperativeHandle(ref, () => ({
     getStageInstance: () => stageRef.current,
+    toCanvas: (pixelRatio: number) => {
+      const stage = stageRef.current;
+      if (!stage) return null;
+      const transformer = transformerRef.current;
+      const wasVisible = transformer?.visible() ?? false;
+      transformer?.visible(false);
+      const canvas = stage.toCanvas({ pixelRatio });
+      transformer?.visible(wasVisible);
+      return canvas;
+    },
   }));
 
-  const quadrants = [
-    { src: topLeftArtUrl, x: 0, y: 0 },
-    { src: topRightArtUrl, x: quadrantWidth, y: 0 },
-    { src: bottomLeftArtUrl, x: 0, y: quadrantHeight },
-    { src: bottomRightArtUrl, x: quadrantWidth, y: quadrantHeight },
-  ];
+  // Keep the transformer on the selected text layer, including after a template switch remounts it
+  useEffect(() => {
+    const transformer = transformerRef.current;
+    if (!transformer) return;
+    const node = selectedTextLayer ? textNodeRefs.current.get(selectedTextLayer) : undefined;
+    transformer.nodes(node ? [node] : []);
+    transformer.getLayer()?.batchDraw();
+  }, [selectedTextLayer, template, textStyles, fontsVersion]);
+
+  // Corner handles scale the font along with the box; side handles only change the wrapping width
+  const handleTextTransformEnd = (key: string, node: Konva.Text, fontSize: number) => {
+    const scaleX = node.scaleX();
+    const scaleY = node.scaleY();
+    node.scale({ x: 1, y: 1 });
+    onTextStyleChange?.(key, {
+      x: node.x(),
+      y: node.y(),
+      width: Math.max(node.width() * scaleX, 20),
+      height: Math.max(node.height() * scaleY, 10),
+      ...(scaleY !== 1 ? { fontSize: Math.max(Math.round(fontSize * scaleY), 1) } : {}),
+    });
+  };
+
+  const textValues = {
+    leftDeckName,
+    rightDeckName,
+    streamDate: streamDate ?? '',
+    eventName: eventName ?? '',
+    bottomText: bottomText ?? '',
+  };
+
+  const themedTemplate = theme ? applyTheme(template, theme) : template;
+
+  const renderRegion = (region: TemplateRegion, index: number) => {
+    switch (region.type) {
+      case 'bar': {
+        const gradient = region.gradientTo
+          ? {
+              ...getBarGradientPoints(region.width, region.height, region.gradientDirection),
+              colorStops: [0, region.fill, 1, region.gradientTo],
+            }
+          : null;
+        return (
+          <Rect
+            key={index}
+            x={region.x}
+            y={region.y}
+            width={region.width}
+            height={region.height}
+            fill={gradient ? undefined : region.fill}
+            fillLinearGradientStartPoint={gradient?.start}
+            fillLinearGradientEndPoint={gradient?.end}
+            fillLinearGradientColorStops={gradient?.colorStops}
+            opacity={region.opacity}
+            listening={false}
+          />
+        );
+      }
+      case 'border':
+        return (
+          <Rect
+            key={index}
+            x={region.x ?? 0}
+            y={region.y ?? 0}
+            width={region.width ?? template.width}
+            height={region.height ?? template.height}
+            stroke={region.stroke}
+            strokeWidth={region.strokeWidth}
+            listening={false}
+          />
+        );
+      case 'line':
+        return (
+          <Line
+            key={index}
+            points={region.points}
+            stroke={region.stroke}
+            strokeWidth={region.strokeWidth}
+            listening={false}
+          />
+        );
+      case 'logo': {
+        if (!logoImage) return null;
+        const rect = getLogoRect(region, logo);
+        return (
+          <KonvaImage
+            key={index}
+            image={logoImage}
+            x={rect.x}
+            y={rect.y}
+            width={rect.width}
+            height={rect.height}
+            listening={false}
+          />
+        );
+      }
+      case 'text': {
+        const key = String(index);
+        const text = getRegionText(region, textValues);
+        const fontSize = resolveFontSize(region, text, getMeasureContext());
+        return (
+          <KonvaText
+            key={index}
+            ref={(node) => {
+              if (node) textNodeRefs.current.set(key, node);
+              else textNodeRefs.current.delete(key);
+            }}
+            text={text}
+            x={region.x}
+            y={region.y}
+            width={region.width}
+            height={region.height}
+            wrap="word" // Enable word wrapping for multi-line text
+            fontSize={fontSize}
+            fontFamily={region.fontFamily}
+            fontStyle={region.fontStyle}
+            fill={region.fill}
+            stroke={region.stroke}
+            strokeWidth={region.strokeWidth}
+            align={region.align}
+            verticalAlign={region.verticalAlign}
+            letterSpacing={region.letterSpacing}
+            shadowEnabled={!!region.shadowColor}
+            shadowColor={region.shadowColor}
+            shadowBlur={region.shadowBlur}
+            shadowOffsetX={region.shadowOffsetX}
+            shadowOffsetY={region.shadowOffsetY}
+            listening={isTextEditable}
+            draggable={isTextEditable}
+            onMouseDown={() => onSelectTextLayer?.(key)}
+            onTap={() => onSelectTextLayer?.(key)}
+            onDragStart={() => onSelectTextLayer?.(key)}
+            onDragEnd={(e) => onTextStyleChange?.(key, { x: e.target.x(), y: e.target.y() })}
+            onTransformEnd={(e) => handleTextTransformEnd(key, e.target as Konva.Text, region.fontSize)}
+          />
+        );
+      }
+      default:
+        return null;
+    }
+  };
 
   return (
-    <Stage width={canvasWidth} height={canvasHeight} ref={stageRef} id="konva-stage">
+    // Template geometry is in template units; the stage scales it to the requested canvas size
+    <Stage
+      width={canvasWidth}
+      height={canvasHeight}
+      scaleX={canvasWidth / template.width}
+      scaleY={canvasHeight / template.height}
+      ref={stageRef}
+      id="konva-stage"
+      // Clicking anywhere but a text layer or its handles clears the selection
+      onMouseDown={(e) => {
+        const isTextLayer = e.target.getClassName() === 'Text';
+        const isHandle = e.target.getParent()?.getClassName() === 'Transformer';
+        if (!isTextLayer && !isHandle) onSelectTextLayer?.(null);
+      }}
+    >
       {/* Background Layer - should be first so it's behind everything */}
       <Layer name="background-layer">
         {bgImageObj && (
@@ -311,147 +335,42 @@ const ThumbnailCanvas = forwardRef<ThumbnailCanvasHandle, ThumbnailCanvasProps>(
             scaleX={customBgScale ?? 1}
             scaleY={customBgScale ?? 1}
             draggable={true}
-            width={canvasWidth}
-            height={canvasHeight}
+            width={template.width}
+            height={template.height}
             listening={true}
           />
         )}
       </Layer>
-      {/* Layer for Card Art - Using Group for each quadrant to handle positioning */}
+      {/* Layer for Card Art - Using Group for each art slot to handle positioning */}
       <Layer name="art-layer">
-        {quadrants.map((quadrant, index) => (
-          <Group key={index} x={quadrant.x} y={quadrant.y} clip={{ x: 0, y: 0, width: quadrantWidth, height: quadrantHeight }}>
-            <QuadrantImage src={quadrant.src} width={quadrantWidth} height={quadrantHeight}/>
+        {template.regions.map((region, index) => region.type === 'art' && (
+          <Group key={index} x={region.x} y={region.y} clip={{ x: 0, y: 0, width: region.width, height: region.height }}>
+            <QuadrantImage
+              src={artUrls[region.slot] ?? null}
+              width={region.width}
+              height={region.height}
+              crop={crops?.[region.slot]}
+              onCropChange={onCropChange ? (crop) => onCropChange(region.slot, crop) : undefined}
+              onLoadingChange={(isLoading) => trackLoading(`art-${index}`, isLoading)}
+            />
           </Group>
         ))}
       </Layer>
 
-      {/* Layer for Static Template Elements */}
-      <Layer name="template-layer">
-        {/* Semi-transparent purple horizontal bar (Video mode only) */}
-        {thumbnailType === "Video" && (
-          <Rect
-            x={0}
-            y={purpleBarY}
-            width={canvasWidth}
-            height={PURPLE_BAR_HEIGHT}
-            fill={PURPLE_COLOR}
-            opacity={0.63}
-            listening={false}
-          />
-        )}
-        
-        {/* Vertical Purple Bar (Stream mode only) */}
-        {thumbnailType === "Stream" && logoToDisplay && (
-          <Rect
-            x={middleX - logoToDisplay.calculatedWidth / 2}
-            y={0}
-            width={logoToDisplay.calculatedWidth}
-            height={canvasHeight}
-            fill={PURPLE_COLOR}
-            opacity={0.63}
-            listening={false}
-          />
-        )}
-
-        {/* Black outer border */}
-        <Rect
-          x={0}
-          y={0}
-          width={canvasWidth}
-          height={canvasHeight}
-          stroke="black"
-          strokeWidth={10} // Adjust border width as needed
-          listening={false}
-        />
-
-        {/* Black vertical line down the exact center */}
-        <Line
-          points={[middleX, 0, middleX, canvasHeight]}
-          stroke="black"
-          strokeWidth={10} // Match border width or adjust
-          listening={false}
-        />
-
-        {/* Actual Logo Image: Conditional rendering based on custom or default logo */}
-        {logoToDisplay && (
-          <KonvaImage
-            image={logoToDisplay.image}
-            x={finalLogoX}
-            y={finalLogoY}
-            width={logoToDisplay.calculatedWidth}
-            height={TARGET_LOGO_HEIGHT}
-            draggable={false}
-            listening={false}
-          />
-        )}
-      </Layer>
-
-      {/* Layer for Deck Name Texts */}
-      <Layer name="text-layer" listening={false}>
-        {/* Left Deck Name (Video Mode Only)*/}
-        {thumbnailType === "Video" && (
-          <KonvaText
-            text={leftDeckName.toUpperCase()} // Match styling from reference if uppercased
-            x={deckNameTextPadding}
-            y={purpleBarY} // New y, verticalAlign will handle centering within the bar height
-            width={leftTextWidth}
-            height={PURPLE_BAR_HEIGHT} // Set height for verticalAlign
-            wrap="word" // Enable word wrapping for multi-line text
-            fontSize={leftDeckOptimalFontSize}
-            fontFamily={TEXT_FONT_FAMILY}
-            fontStyle="bold"
-            fill={TEXT_COLOR}
-            stroke={TEXT_STROKE_COLOR}
-            strokeWidth={2.3} // Slightly thicker stroke can look better
-            align="center"
-            verticalAlign="middle"
-            draggable={false} // Typically not draggable, but can be enabled
+      {/* Layer for the template's bars, borders, logo and text, drawn in template order. Only the
+          text listens, so the art underneath can still be dragged. Remounted when fonts load, since
+          Konva keeps text laid out with whatever font was available at the time. */}
+      <Layer key={fontsVersion} name="template-layer" listening={isTextEditable}>
+        {applyTextLayerStyles({ ...themedTemplate, regions: fitTextAroundLogo(themedTemplate.regions, logo) }, textStyles).map(renderRegion)}
+        {isTextEditable && (
+          <Transformer
+            ref={transformerRef}
+            rotateEnabled={false}
+            keepRatio={false}
+            enabledAnchors={['top-left', 'top-right', 'bottom-left', 'bottom-right', 'middle-left', 'middle-right']}
+            boundBoxFunc={(oldBox, newBox) => (newBox.width < 20 || newBox.height < 10 ? oldBox : newBox)}
           />
         )}
-        {/* Right Deck Name (Video Mode Only) */}
-        {thumbnailType === "Video" && (
-          <KonvaText
-            text={rightDeckName.toUpperCase()} // Match styling from reference if uppercased
-            x={rightTextX}
-            y={purpleBarY} // New y
-            width={rightTextWidth}
-            height={PURPLE_BAR_HEIGHT} // Set height for verticalAlign
-            wrap="word" // Enable word wrapping for multi-line text
-            fontSize={rightDeckOptimalFontSize}
-            fontFamily={TEXT_FONT_FAMILY}
-            fontStyle="bold"
-            fill={TEXT_COLOR}
-            stroke={TEXT_STROKE_COLOR}
-            strokeWidth={2.3}
-            align="center"
-            verticalAlign="middle"
-            draggable={false}
-          />
-        )}
-
-        {/* Stream Mode Texts */}
-        {thumbnailType === "Stream" && logoToDisplay && (
-          <>
-            {streamTexts.map((textConfig, index) => (
-              <KonvaText
-                key={index}
-                text={textConfig.text}
-                x={middleX - logoToDisplay.calculatedWidth / 2}
-                y={textConfig.y}
-                width={logoToDisplay.calculatedWidth}
-                fontSize={textConfig.fontSize}
-                fontFamily={TEXT_FONT_FAMILY}
-                fontStyle="bold"
-                fill={TEXT_COLOR}
-                stroke={TEXT_STROKE_COLOR}
-                strokeWidth={textConfig.strokeWidth}
-                align="center"
-                verticalAlign="middle"
-              />
-            ))}
-          </>
-        )}
       </Layer>
     </Stage>
   );
@@ -459,4 +378,4 @@ const ThumbnailCanvas = forwardRef<ThumbnailCanvasHandle, ThumbnailCanvasProps>(
 
 ThumbnailCanvas.displayName = 'ThumbnailCanvas';
 
-export default ThumbnailCanvas;
\ No newline at end of file
+export default ThumbnailCanvas;
@@ -0,0 +1,35 @@
+'use client';
+
+import { api } from '~/trpc/react';
+import { BUILT_IN_WORKSPACES, WORKSPACE_COOKIE } from '~/lib/workspaces';
+
+const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+/**
+ * Picks the workspace every page works in. The choice is a cookie so plain HTTP routes see it too,
+ * and the page reloads so nothing from the old workspace (an open project, a draft) carries over.
+ */
+export function WorkspaceSwitcher() {
+  const { data: workspaces } = api.workspace.list.useQuery();
+  const { data: current } = api.workspace.current.useQuery();
+
+  const handleChange = (key: string) => {
+    document.cookie = `${WORKSPACE_COOKIE}=${encodeURIComponent(key)}; path=/; max-age=${COOKIE_MAX_AGE_SECONDS}; samesite=lax`;
+    window.location.reload();
+  };
+
+  if (!current) return null;
+
+  return (
+    <select
+      value={current.key}
+      onChange={(e) => handleChange(e.target.value)}
+      className="bg-slate-800 border border-indigo-500/50 text-slate-200 text-xs h-6 px-1 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500"
+      aria-label="Workspace"
+    >
+      {(workspaces ?? BUILT_IN_WORKSPACES).map((workspace) => (
+        <option key={workspace.key} value={workspace.key}>{workspace.name}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,45 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { SESSION_COOKIE, credentialsSchema } from "~/lib/auth";
+import { authenticate, createSession, getSessionCookieOptions } from "~/server/auth";
+import { db } from "~/server/db";
+import { getClientAddress, limitFailedSignIns } from "~/server/signInLimits";
+
+export const runtime = "nodejs";
+
+/**
+ * Signs in: POST `{ "username": ..., "password": ... }` and get the session cookie back. Scripts
+ * can keep it in a cookie jar, e.g. `curl -c cookies.txt` here and `-b cookies.txt` afterwards.
+ * Repeated failures for a username or address get 429 for a while, see `limitFailedSignIns`.
+ */
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  const credentials = credentialsSchema.safeParse(body);
+  if (!credentials.success) {
+    return NextResponse.json({ error: "Wrong username or password" }, { status: 401 });
+  }
+
+  try {
+    const user = await limitFailedSignIns(credentials.data.username, getClientAddress(req.headers), () =>
+      authenticate(db, credentials.data)
+    );
+    const { token, expiresAt } = await createSession(db, user.id);
+    const response = NextResponse.json(user);
+    response.cookies.set(SESSION_COOKIE, token, getSessionCookieOptions(expiresAt));
+    return response;
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to sign in:", error);
+    return NextResponse.json({ error: "Failed to sign in" }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { SESSION_COOKIE } from "~/lib/auth";
+import { deleteSession, getSessionCookieOptions, getSessionToken } from "~/server/auth";
+import { db } from "~/server/db";
+
+export const runtime = "nodejs";
+
+// Signs out: ends the session and clears its cookie
+export async function POST(req: NextRequest) {
+  const token = getSessionToken(req.headers);
+  try {
+    if (token) await deleteSession(db, token);
+  } catch (error) {
+    console.error("Failed to end session:", error);
+  }
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(SESSION_COOKIE, "", getSessionCookieOptions(new Date(0)));
+  return response;
+}
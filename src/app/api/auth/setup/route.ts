@@ -0,0 +1,41 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { SESSION_COOKIE, credentialsSchema } from "~/lib/auth";
+import { createFirstAdmin, createSession, getSessionCookieOptions } from "~/server/auth";
+import { db } from "~/server/db";
+
+export const runtime = "nodejs";
+
+/**
+ * Creates the first account, as an admin, and signs it in. Only works while there are no accounts;
+ * after that, admins add accounts from the Users page.
+ */
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  const credentials = credentialsSchema.safeParse(body);
+  if (!credentials.success) {
+    return NextResponse.json({ error: credentials.error.issues[0]?.message ?? "Invalid account details" }, { status: 400 });
+  }
+
+  try {
+    const user = await createFirstAdmin(db, credentials.data);
+    const { token, expiresAt } = await createSession(db, user.id);
+    const response = NextResponse.json(user);
+    response.cookies.set(SESSION_COOKIE, token, getSessionCookieOptions(expiresAt));
+    return response;
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to create the first account:", error);
+    return NextResponse.json({ error: "Failed to create the first account" }, { status: 500 });
+  }
+}
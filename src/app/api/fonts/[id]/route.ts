@@ -0,0 +1,38 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { requireRequestUser } from "~/server/auth";
+import { db } from "~/server/db";
+
+export const runtime = "nodejs";
+
+// Font URLs carry the upload time (see `getFontUrl`), so a given URL never changes content
+const CACHE_CONTROL = "private, max-age=31536000, immutable";
+
+// Serves an uploaded font file for the editor's FontFace loading
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    await requireRequestUser(db, req.headers, "viewer");
+    const font = await db.font.findUnique({ where: { id }, select: { contentType: true, data: true } });
+    if (!font) {
+      return NextResponse.json({ error: "Font not found" }, { status: 404 });
+    }
+
+    return new Response(Buffer.from(font.data), {
+      headers: {
+        "Content-Type": font.contentType,
+        "Content-Length": font.data.length.toString(),
+        "Cache-Control": CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to serve font:", error);
+    return NextResponse.json({ error: "Failed to load font" }, { status: 500 });
+  }
+}
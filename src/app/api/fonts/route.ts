@@ -0,0 +1,43 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { FONT_MAX_BYTES, fontFaceSchema } from "~/lib/fonts";
+import { requireRequestUser } from "~/server/auth";
+import { db } from "~/server/db";
+import { saveFont } from "~/server/fonts";
+import { readUploadBody } from "~/server/uploads";
+
+export const runtime = "nodejs";
+
+/**
+ * Uploads a font: POST the file as the body with `?family=Calibri&fileName=calibrib.ttf`, plus
+ * `weight=bold` and/or `style=italic` for those faces. Re-uploading a face replaces it.
+ */
+export async function POST(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const face = fontFaceSchema.safeParse({
+    family: params.get("family"),
+    weight: params.get("weight") ?? undefined,
+    style: params.get("style") ?? undefined,
+  });
+  const fileName = params.get("fileName");
+  if (!face.success) {
+    return NextResponse.json({ error: face.error.issues[0]?.message ?? "Invalid font details" }, { status: 400 });
+  }
+  if (!fileName) {
+    return NextResponse.json({ error: "Missing fileName" }, { status: 400 });
+  }
+
+  try {
+    await requireRequestUser(db, req.headers, "editor");
+    const data = await readUploadBody(req, FONT_MAX_BYTES, `Fonts must be under ${FONT_MAX_BYTES / 1024 / 1024}MB`);
+    return NextResponse.json(await saveFont(db, face.data, fileName, data));
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to upload font:", error);
+    return NextResponse.json({ error: "Failed to upload font" }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { open } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { requireRequestUser } from "~/server/auth";
+import { db } from "~/server/db";
+import { fetchAllowedImage, isAllowedImageUrl } from "~/server/images";
+import { type CachedImage, getCachedImage } from "~/server/imageCache";
+
+export const runtime = "nodejs";
+
+// Scryfall versions its image URLs with a timestamp query, so a given URL never changes content.
+// Private, since only signed-in users may load them.
+const CACHE_CONTROL = "private, max-age=31536000, immutable";
+
+/**
+ * Opens a cached image for streaming; once open, evicting it doesn't cut the response short. An
+ * image evicted between the lookup and here is fetched from Scryfall again instead.
+ */
+async function openImageBody(imageUrl: string, image: CachedImage) {
+  try {
+    const handle = await open(image.filePath);
+    return { body: Readable.toWeb(handle.createReadStream()) as ReadableStream<Uint8Array>, size: image.size };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    const { buffer } = await fetchAllowedImage(imageUrl);
+    return { body: new Uint8Array(buffer), size: buffer.byteLength };
+  }
+}
+
+/**
+ * Same-origin proxy for Scryfall card images so the editor canvas can draw them without being
+ * tainted: GET `/api/image?url=<Scryfall image URL>`. Images are served from the on-disk cache.
+ */
+export async function GET(req: NextRequest) {
+  const imageUrl = req.nextUrl.searchParams.get("url");
+  if (!imageUrl || !isAllowedImageUrl(imageUrl)) {
+    return NextResponse.json({ error: "Image URL from disallowed domain." }, { status: 400 });
+  }
+
+  try {
+    await requireRequestUser(db, req.headers, "viewer");
+    const image = await getCachedImage(imageUrl);
+    if (req.headers.get("if-none-match") === image.etag) {
+      return new Response(null, { status: 304, headers: { "ETag": image.etag, "Cache-Control": CACHE_CONTROL } });
+    }
+
+    const { body, size } = await openImageBody(imageUrl, image);
+    return new Response(body, {
+      headers: {
+        "Content-Type": image.contentType,
+        "Content-Length": size.toString(),
+        "ETag": image.etag,
+        "Cache-Control": CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to serve image:", error);
+    return NextResponse.json({ error: "Failed to load image" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { requireRequestUser } from "~/server/auth";
+import { db } from "~/server/db";
+import { getRequestWorkspace } from "~/server/workspaces";
+
+export const runtime = "nodejs";
+
+// Logo URLs carry the upload time (see `getLogoUrl`), so a given URL never changes content
+const CACHE_CONTROL = "private, max-age=31536000, immutable";
+
+// Serves a logo uploaded to the current workspace for the editor canvas
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    await requireRequestUser(db, req.headers, "viewer");
+    const workspace = await getRequestWorkspace(db, req.headers);
+    const logo = await db.logo.findFirst({
+      where: { id, workspaceKey: workspace.key },
+      select: { contentType: true, data: true },
+    });
+    if (!logo) {
+      return NextResponse.json({ error: "Logo not found" }, { status: 404 });
+    }
+
+    return new Response(Buffer.from(logo.data), {
+      headers: {
+        "Content-Type": logo.contentType,
+        "Content-Length": logo.data.length.toString(),
+        "Cache-Control": CACHE_CONTROL,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to serve logo:", error);
+    return NextResponse.json({ error: "Failed to load logo" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { LOGO_MAX_BYTES, logoNameSchema } from "~/lib/logos";
+import { requireRequestUser } from "~/server/auth";
+import { db } from "~/server/db";
+import { saveLogo } from "~/server/logos";
+import { readUploadBody } from "~/server/uploads";
+import { getRequestWorkspace } from "~/server/workspaces";
+
+export const runtime = "nodejs";
+
+/**
+ * Uploads a logo to the current workspace: POST the image as the body with
+ * `?name=Guest%20Channel&fileName=guest.png`. Its placement starts at the defaults and is adjusted
+ * through the logo router.
+ */
+export async function POST(req: NextRequest) {
+  const params = req.nextUrl.searchParams;
+  const name = logoNameSchema.safeParse(params.get("name"));
+  const fileName = params.get("fileName");
+  if (!name.success) {
+    return NextResponse.json({ error: name.error.issues[0]?.message ?? "Invalid logo name" }, { status: 400 });
+  }
+  if (!fileName) {
+    return NextResponse.json({ error: "Missing fileName" }, { status: 400 });
+  }
+
+  try {
+    await requireRequestUser(db, req.headers, "editor");
+    const workspace = await getRequestWorkspace(db, req.headers);
+    const data = await readUploadBody(req, LOGO_MAX_BYTES, `Logos must be under ${LOGO_MAX_BYTES / 1024 / 1024}MB`);
+    return NextResponse.json(await saveLogo(db, workspace.key, name.data, fileName, data));
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to upload logo:", error);
+    return NextResponse.json({ error: "Failed to upload logo" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { requireRequestUser } from "~/server/auth";
+import { db } from "~/server/db";
+import { downloadBulkData } from "~/server/scryfall";
+import { importScryfallBulkData } from "~/server/scryfallBulkImport";
+
+export const runtime = "nodejs";
+
+const BULK_DATA_TYPE = "unique_artwork";
+
+/**
+ * Refreshes the offline card search snapshot. POST a Scryfall "unique artwork" bulk data file as
+ * the body (`curl --data-binary @unique-artwork.json`), or POST `?download=1` to have the server
+ * fetch the current one from Scryfall.
+ */
+export async function POST(req: NextRequest) {
+  const shouldDownload = req.nextUrl.searchParams.get("download") === "1";
+  if (!shouldDownload && !req.body) {
+    return NextResponse.json({ error: "Send a bulk data file, or use ?download=1" }, { status: 400 });
+  }
+
+  try {
+    await requireRequestUser(db, req.headers, "admin");
+    const body = shouldDownload ? await downloadBulkData(BULK_DATA_TYPE) : req.body!;
+    const result = await importScryfallBulkData(db, body);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to import Scryfall bulk data:", error);
+    return NextResponse.json({ error: "Failed to import Scryfall bulk data" }, { status: 500 });
+  }
+}
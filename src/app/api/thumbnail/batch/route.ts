@@ -0,0 +1,56 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { format } from "date-fns";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { batchRequestSchema } from "~/lib/batch";
+import { DEFAULT_TEMPLATE_KEY } from "~/lib/template";
+import { requireRequestUser } from "~/server/auth";
+import { renderBatchZip } from "~/server/batch";
+import { db } from "~/server/db";
+import { getTemplate } from "~/server/templates";
+import { getRequestWorkspace } from "~/server/workspaces";
+
+// node-canvas is a native module, so this route can't run on the edge
+export const runtime = "nodejs";
+
+/**
+ * POST a `BatchRequest` (usually built by `parseMatchList` from an uploaded CSV/JSON) and get back
+ * a ZIP with one PNG per match, ranked, saved and published in the request's workspace.
+ */
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  const parsed = batchRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid match list", issues: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await requireRequestUser(db, req.headers, "editor");
+    const workspace = await getRequestWorkspace(db, req.headers);
+    const template = await getTemplate(db, parsed.data.templateKey ?? DEFAULT_TEMPLATE_KEY);
+    const archive = await renderBatchZip(db, workspace.key, template, parsed.data);
+    return new Response(new Uint8Array(archive), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Length": archive.byteLength.toString(),
+        "Content-Disposition": `attachment; filename="Thumbnails-${format(new Date(), "yyyy-MM-dd")}.zip"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to render thumbnail batch:", error);
+    return NextResponse.json({ error: "Failed to render thumbnail batch" }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { getThumbnailFileName } from "~/lib/thumbnail";
+import { requireRequestUser } from "~/server/auth";
+import { db } from "~/server/db";
+import { renderThumbnailPng, resolveRenderTemplate, thumbnailRenderInputSchema } from "~/server/render/thumbnail";
+import { getRequestWorkspace } from "~/server/workspaces";
+
+// node-canvas is a native module, so this route can't run on the edge
+export const runtime = "nodejs";
+
+// File names come from user text, so the plain `filename` keeps only characters that can't break
+// the header, and `filename*` carries the real name for clients that read it (RFC 6266)
+const getContentDisposition = (fileName: string) => {
+  const asciiName = fileName.replace(/[^\w.-]/g, "_");
+  const encodedName = encodeURIComponent(fileName).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `inline; filename="${asciiName}"; filename*=UTF-8''${encodedName}`;
+};
+
+/**
+ * Plain HTTP endpoint for scripts: POST the same JSON accepted by `render.renderThumbnail` and get
+ * the PNG back as the response body. Needs a session cookie from `/api/auth/login`; themes come
+ * from the workspace in the `ochm_workspace` cookie, the default one without it.
+ */
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  const parsed = thumbnailRenderInputSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid thumbnail input", issues: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await requireRequestUser(db, req.headers, "viewer");
+    const workspace = await getRequestWorkspace(db, req.headers);
+    const template = await resolveRenderTemplate(db, parsed.data);
+    const png = await renderThumbnailPng(db, workspace.key, parsed.data, template);
+    const fileName = getThumbnailFileName(template.fileName, {
+      leftDeckName: parsed.data.leftDeckName,
+      rightDeckName: parsed.data.rightDeckName,
+      streamDate: parsed.data.streamDate ?? "",
+      eventName: parsed.data.eventName ?? "",
+      bottomText: parsed.data.bottomText ?? "",
+    });
+    return new Response(new Uint8Array(png), {
+      headers: {
+        "Content-Type": "image/png",
+        "Content-Length": png.byteLength.toString(),
+        "Content-Disposition": getContentDisposition(fileName),
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json({ error: error.message }, { status: getHTTPStatusCodeFromError(error) });
+    }
+    console.error("Failed to render thumbnail:", error);
+    return NextResponse.json({ error: "Failed to render thumbnail" }, { status: 500 });
+  }
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Label } from '~/components/ui/label';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { api } from '~/trpc/react';
+import { type BatchRequest, parseMatchList } from '~/lib/batch';
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_KEY,
+  findTemplate,
+  getArtSlots,
+  getTemplateBindings,
+} from '~/lib/template';
+import { BUILT_IN_THEMES, DEFAULT_THEME_KEY } from '~/lib/themes';
+
+const STALE_TIME_TEMPLATES = 1000 * 60 * 10;
+
+export default function BatchPage() {
+  const [templateKey, setTemplateKey] = useState(DEFAULT_TEMPLATE_KEY);
+  const [themeKey, setThemeKey] = useState(DEFAULT_THEME_KEY);
+  const [streamDate, setStreamDate] = useState('');
+  const [eventName, setEventName] = useState('MODERN FNM');
+  const [matchList, setMatchList] = useState<{ text: string; fileName: string } | null>(null);
+  const [publish, setPublish] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+
+  const templatesQuery = api.template.list.useQuery(undefined, { staleTime: STALE_TIME_TEMPLATES });
+  const templates = templatesQuery.data ?? BUILT_IN_TEMPLATES;
+  const template = findTemplate(templates, templateKey);
+  const templateBindings = getTemplateBindings(template.definition);
+  const artSlots = useMemo(() => getArtSlots(template.definition), [template.definition]);
+  const themesQuery = api.theme.list.useQuery(undefined, { staleTime: STALE_TIME_TEMPLATES });
+  const themes = themesQuery.data ?? BUILT_IN_THEMES;
+
+  // Parsed against the picked template's slots, so switching templates re-checks the columns
+  const { matches, errors: parseErrors } = useMemo(
+    () => (matchList ? parseMatchList(matchList.text, matchList.fileName, artSlots.map(({ slot }) => slot)) : { matches: [], errors: [] }),
+    [matchList, artSlots]
+  );
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      setMatchList({ text: ev.target?.result as string, fileName: file.name });
+      setGenerateError(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleGenerate = async () => {
+    const request: BatchRequest = {
+      templateKey: template.key,
+      themeKey,
+      streamDate,
+      eventName,
+      matches,
+      publish,
+    };
+
+    setIsGenerating(true);
+    setGenerateError(null);
+    try {
+      const response = await fetch('/api/thumbnail/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        setGenerateError(error ?? 'Failed to generate thumbnails.');
+        return;
+      }
+
+      const fileName = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1];
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.download = fileName ?? 'Thumbnails.zip';
+      link.href = url;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to generate thumbnail batch:", error);
+      setGenerateError('Failed to generate thumbnails.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-indigo-900 text-slate-50 p-4 space-y-6">
+      <h1 className="text-center text-4xl font-extrabold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-purple-400 via-pink-400 to-orange-400 pt-4">Batch Thumbnails</h1>
+      <Link href="/" className="text-sm text-indigo-300 hover:text-indigo-200">← Back to editor</Link>
+
+      <div className="w-full max-w-4xl space-y-4 bg-slate-800/50 p-6 rounded-xl shadow-2xl border-2 border-indigo-400/30">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="template-selection" className='text-indigo-200'>Template</Label>
+            <select
+              id="template-selection"
+              value={template.key}
+              onChange={(e) => setTemplateKey(e.target.value)}
+              className="w-full bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-3 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {templates.map((option) => (
+                <option key={option.key} value={option.key}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="theme-selection" className='text-indigo-200'>Theme</Label>
+            <select
+              id="theme-selection"
+              value={themeKey}
+              onChange={(e) => setThemeKey(e.target.value)}
+              className="w-full bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-3 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {themes.map((option) => (
+                <option key={option.key} value={option.key}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          {templateBindings.has('streamDate') && (
+            <div className="space-y-2">
+              <Label htmlFor="stream-date" className='text-indigo-200'>Stream Date</Label>
+              <Input
+                id="stream-date"
+                type="text"
+                value={streamDate}
+                onChange={(e) => setStreamDate(e.target.value)}
+                placeholder="MM/DD/YY"
+                className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
+              />
+            </div>
+          )}
+          {templateBindings.has('eventName') && (
+            <div className="space-y-2">
+              <Label htmlFor="event-name" className='text-indigo-200'>Event Name</Label>
+              <Input
+                id="event-name"
+                type="text"
+                value={eventName}
+                onChange={(e) => setEventName(e.target.value)}
+                placeholder="MODERN FNM"
+                className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="match-list-upload" className='text-indigo-200'>Match List (CSV or JSON)</Label>
+          <Input
+            id="match-list-upload"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileUpload}
+            className="w-full text-sm text-slate-300 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:text-xs file:font-semibold file:bg-orange-400/20 file:text-orange-300 hover:file:bg-orange-400/30"
+          />
+          <p className="text-xs text-slate-400">
+            Columns: leftDeckName, rightDeckName, then one column per card slot
+            ({artSlots.map(({ slot }) => slot).join(', ')}). Add a {'<slot>'}Set column to pin a printing;
+            otherwise the recommended art is picked, favoring arts the channel has gone longest without.
+          </p>
+        </div>
+
+        {parseErrors.length > 0 && (
+          <ul className="text-xs text-red-400 list-disc pl-4">
+            {parseErrors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        {matches.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-slate-300">
+              <thead className="text-xs text-indigo-200 border-b border-indigo-400/30">
+                <tr>
+                  <th className="py-2 pr-2">#</th>
+                  <th className="py-2 pr-2">Left Deck</th>
+                  <th className="py-2 pr-2">Right Deck</th>
+                  {artSlots.map(({ slot, label }) => <th key={slot} className="py-2 pr-2">{label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {matches.map((match, index) => (
+                  <tr key={index} className="border-b border-slate-700/50">
+                    <td className="py-1 pr-2">{index + 1}</td>
+                    <td className="py-1 pr-2">{match.leftDeckName}</td>
+                    <td className="py-1 pr-2">{match.rightDeckName}</td>
+                    {artSlots.map(({ slot }) => {
+                      const card = match.cards[slot];
+                      return (
+                        <td key={slot} className="py-1 pr-2">
+                          {card ? `${card.name}${card.set ? ` (${card.set})` : ''}` : '—'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <input
+            id="publish-batch"
+            type="checkbox"
+            checked={publish}
+            onChange={(e) => setPublish(e.target.checked)}
+            className="h-4 w-4 accent-orange-400"
+          />
+          <Label htmlFor="publish-batch" className='text-indigo-200'>Mark as published</Label>
+        </div>
+        <p className="text-xs text-slate-400">
+          {publish
+            ? 'Arts and decks count as used as soon as the ZIP is generated.'
+            : 'Thumbnails are saved as drafts; publish them from Card History once they go out.'}
+        </p>
+
+        <Button
+          onClick={handleGenerate}
+          disabled={matches.length === 0 || isGenerating}
+          className='w-full bg-gradient-to-r from-pink-400 via-purple-400 to-orange-400 text-indigo-700 hover:text-indigo-900 text-lg font-semibold'
+        >
+          {isGenerating ? `Generating ${matches.length} thumbnails...` : `Download ${matches.length} Thumbnails as ZIP`}
+        </Button>
+        {generateError && <p className="text-xs text-red-400">{generateError}</p>}
+      </div>
+    </main>
+  );
+}
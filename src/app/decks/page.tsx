@@ -0,0 +1,265 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Label } from '~/components/ui/label';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { api } from '~/trpc/react';
+import { type DeckColor, type DeckKeyCard, DECK_COLORS } from '~/lib/deckProfile';
+
+interface DeckEditorProps {
+  deck: {
+    name: string;
+    colors: DeckColor[];
+    aliases: string[];
+    keyCards: DeckKeyCard[];
+  };
+  otherDeckNames: string[];
+  onRenamed: (newName: string) => void;
+  onRemoved: () => void;
+}
+
+function DeckEditor({ deck, otherDeckNames, onRenamed, onRemoved }: DeckEditorProps) {
+  const utils = api.useUtils();
+  const [newName, setNewName] = useState(deck.name);
+  const [colors, setColors] = useState<DeckColor[]>(deck.colors);
+  const [aliases, setAliases] = useState(deck.aliases.join(', '));
+  const [keyCards, setKeyCards] = useState<DeckKeyCard[]>(deck.keyCards);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const invalidateDecks = () => Promise.all([utils.deck.list.invalidate(), utils.deck.getProfile.invalidate()]);
+
+  const editMutation = api.deck.editProfile.useMutation({ onSuccess: () => void invalidateDecks() });
+  const renameMutation = api.deck.rename.useMutation({
+    onSuccess: (renamed) => {
+      onRenamed(renamed.name);
+      void invalidateDecks();
+    },
+  });
+  const mergeMutation = api.deck.merge.useMutation({
+    onSuccess: (merged) => {
+      onRenamed(merged.name);
+      void invalidateDecks();
+    },
+  });
+  const rollbackUsageMutation = api.deck.rollbackUsage.useMutation({ onSuccess: () => void invalidateDecks() });
+  const deleteMutation = api.deck.delete.useMutation({
+    onSuccess: () => {
+      onRemoved();
+      void invalidateDecks();
+    },
+  });
+
+  const handleSave = () => {
+    editMutation.mutate({
+      name: deck.name,
+      profile: {
+        colors,
+        keyCards,
+        aliases: aliases.split(',').map((alias) => alias.trim()).filter(Boolean),
+      },
+    });
+  };
+
+  const toggleColor = (color: DeckColor) => {
+    setColors((prev) => (prev.includes(color) ? prev.filter((c) => c !== color) : [...prev, color]));
+  };
+
+  const error =
+    editMutation.error ?? renameMutation.error ?? mergeMutation.error ?? rollbackUsageMutation.error ?? deleteMutation.error;
+  const isBusy =
+    editMutation.isPending || renameMutation.isPending || mergeMutation.isPending ||
+    rollbackUsageMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="deck-name" className='text-indigo-200'>Name</Label>
+        <div className="flex space-x-2">
+          <Input
+            id="deck-name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => renameMutation.mutate({ name: deck.name, newName })}
+            disabled={!newName.trim() || newName.trim() === deck.name || isBusy}
+          >
+            Rename
+          </Button>
+        </div>
+        <p className="text-xs text-slate-400">The old name is kept as an alias.</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className='text-indigo-200'>Colors</Label>
+        <div className="flex space-x-2">
+          {DECK_COLORS.map((color) => (
+            <Button
+              key={color}
+              size="sm"
+              variant={colors.includes(color) ? 'default' : 'outline'}
+              onClick={() => toggleColor(color)}
+              className="w-8"
+            >
+              {color}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="deck-aliases" className='text-indigo-200'>Aliases</Label>
+        <Input
+          id="deck-aliases"
+          value={aliases}
+          onChange={(e) => setAliases(e.target.value)}
+          placeholder="RW Energy, Boros Energy"
+          className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className='text-indigo-200'>Key Cards</Label>
+        {keyCards.length === 0 ? (
+          <p className="text-xs text-slate-400">
+            No key cards yet. Pick cards for this deck in the editor and save them from there.
+          </p>
+        ) : (
+          <ol className="space-y-1 text-sm text-slate-300">
+            {keyCards.map((card, index) => (
+              <li key={card.cardName} className="flex items-center justify-between">
+                <span>
+                  {index + 1}. {card.cardName}
+                  {!card.artUrl && <span className="text-xs text-slate-400"> (recommended art)</span>}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setKeyCards((prev) => prev.filter((_, i) => i !== index))}
+                  className="h-6 px-2 text-xs text-red-300"
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <Button onClick={handleSave} disabled={isBusy} className="w-full">Save Profile</Button>
+
+      <div className="space-y-2 border-t border-indigo-400/30 pt-4">
+        <Label htmlFor="merge-target" className='text-indigo-200'>Merge Into</Label>
+        <div className="flex space-x-2">
+          <select
+            id="merge-target"
+            value={mergeTarget}
+            onChange={(e) => setMergeTarget(e.target.value)}
+            className="flex-grow bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-3 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          >
+            <option value="">Choose a deck...</option>
+            {otherDeckNames.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => mergeMutation.mutate({ sourceName: deck.name, targetName: mergeTarget })}
+            disabled={!mergeTarget || isBusy}
+          >
+            Merge
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => rollbackUsageMutation.mutate({ name: deck.name })}
+          disabled={isBusy}
+          title="Set the last use back to the published thumbnail with this deck before the latest one"
+        >
+          Roll Back Last Use
+        </Button>
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={() => deleteMutation.mutate({ name: deck.name })}
+          disabled={isBusy}
+        >
+          Delete Deck
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error.message}</p>}
+    </div>
+  );
+}
+
+export default function DecksPage() {
+  const [search, setSearch] = useState('');
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+
+  const { data: decks, isLoading } = api.deck.list.useQuery(undefined, { staleTime: 1000 * 60 });
+
+  const query = search.trim().toLowerCase();
+  const filteredDecks = (decks ?? []).filter((deck) =>
+    !query || deck.name.toLowerCase().includes(query) || deck.aliases.some((alias) => alias.toLowerCase().includes(query))
+  );
+  const selectedDeck = decks?.find((deck) => deck.name === selectedName);
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-indigo-900 text-slate-50 p-4 space-y-6">
+      <h1 className="text-center text-4xl font-extrabold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-purple-400 via-pink-400 to-orange-400 pt-4">Decks</h1>
+      <Link href="/" className="text-sm text-indigo-300 hover:text-indigo-200">← Back to editor</Link>
+
+      <div className="w-full max-w-4xl grid gap-4 md:grid-cols-2">
+        <div className="space-y-2 bg-slate-800/50 p-4 rounded-xl border-2 border-indigo-400/30">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search decks..."
+            className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
+          />
+          {isLoading && <p className="text-xs text-slate-400">Loading decks...</p>}
+          <ul className="max-h-[60vh] overflow-y-auto space-y-1">
+            {filteredDecks.map((deck) => (
+              <li key={deck.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedName(deck.name)}
+                  className={`w-full text-left px-2 py-1 rounded-md text-sm ${deck.name === selectedName ? 'bg-indigo-500/30 text-slate-50' : 'text-slate-300 hover:bg-slate-700/50'}`}
+                >
+                  <span>{deck.name}</span>
+                  {deck.colors.length > 0 && <span className="ml-2 text-xs text-slate-400">{deck.colors.join('')}</span>}
+                  <span className="float-right text-xs text-slate-500">{format(new Date(deck.lastUsedAt), 'P')}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-slate-800/50 p-4 rounded-xl border-2 border-indigo-400/30">
+          {selectedDeck ? (
+            <DeckEditor
+              // Remount after renames and alias edits so the form starts from the saved profile
+              key={`${selectedDeck.id}:${selectedDeck.name}:${selectedDeck.aliases.join(',')}`}
+              deck={selectedDeck}
+              otherDeckNames={(decks ?? []).filter((deck) => deck.id !== selectedDeck.id).map((deck) => deck.name)}
+              onRenamed={setSelectedName}
+              onRemoved={() => setSelectedName(null)}
+            />
+          ) : (
+            <p className="text-sm text-slate-400">Select a deck to edit its profile.</p>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
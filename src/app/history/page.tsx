@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Label } from '~/components/ui/label';
+import { Button } from '~/components/ui/button';
+import { AutocompleteCombobox } from '~/app/_components/AutocompleteCombobox';
+import { api } from '~/trpc/react';
+import { BUILT_IN_WORKSPACES, findWorkspace } from '~/lib/workspaces';
+
+export default function HistoryPage() {
+  const [cardName, setCardName] = useState('');
+  const [allWorkspaces, setAllWorkspaces] = useState(false);
+
+  const { data: history, isLoading } = api.art.getCardHistory.useQuery(
+    { cardName, allWorkspaces },
+    { enabled: !!cardName, staleTime: 1000 * 60 }
+  );
+  const { data: workspaces } = api.workspace.list.useQuery(undefined, { enabled: allWorkspaces });
+  const { data: currentWorkspace } = api.workspace.current.useQuery();
+  const { data: thumbnails } = api.thumbnail.list.useQuery();
+
+  const utils = api.useUtils();
+  const invalidateUsage = () =>
+    Promise.all([
+      utils.art.getArtUsage.invalidate(),
+      utils.art.getCardHistory.invalidate(),
+      utils.thumbnail.list.invalidate(),
+    ]);
+  const publishMutation = api.thumbnail.publish.useMutation({ onSuccess: invalidateUsage });
+  const unpublishMutation = api.thumbnail.unpublish.useMutation({ onSuccess: invalidateUsage });
+  const undoUsageMutation = api.art.undoUsage.useMutation({ onSuccess: invalidateUsage });
+  const isUpdating = publishMutation.isPending || unpublishMutation.isPending || undoUsageMutation.isPending;
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-indigo-900 text-slate-50 p-4 space-y-6">
+      <h1 className="text-center text-4xl font-extrabold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-purple-400 via-pink-400 to-orange-400 pt-4">Card History</h1>
+      <Link href="/" className="text-sm text-indigo-300 hover:text-indigo-200">← Back to editor</Link>
+
+      <div className="w-full max-w-3xl space-y-3 bg-slate-800/50 p-4 rounded-xl border-2 border-indigo-400/30">
+        <h2 className="text-lg font-semibold text-indigo-200">Recent Thumbnails</h2>
+        <p className="text-xs text-slate-400">
+          Downloads are saved as drafts. Only published thumbnails count their arts and decks as used.
+        </p>
+        {thumbnails?.length === 0 && <p className="text-sm text-slate-400">Nothing exported yet.</p>}
+        <ul className="space-y-2">
+          {thumbnails?.map((thumbnail) => (
+            <li key={thumbnail.id} className="flex items-center justify-between space-x-3 rounded-md bg-slate-700/40 p-2">
+              <div className="min-w-0 text-sm">
+                <p className="font-medium text-slate-100 truncate">{thumbnail.title}</p>
+                <p className="text-xs text-slate-400">
+                  {thumbnail.templateName} ·{' '}
+                  {thumbnail.status === 'published' && thumbnail.publishedAt
+                    ? <span className="text-emerald-300">Published {format(new Date(thumbnail.publishedAt), 'PPp')}</span>
+                    : `Draft, saved ${format(new Date(thumbnail.updatedAt), 'PPp')}`}
+                </p>
+              </div>
+              {thumbnail.status === 'published' ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={isUpdating}
+                  onClick={() => unpublishMutation.mutate({ id: thumbnail.id })}
+                  className="h-7 px-2 text-xs text-indigo-300 hover:text-indigo-200"
+                >
+                  Unpublish
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  disabled={isUpdating}
+                  onClick={() => publishMutation.mutate({ id: thumbnail.id })}
+                  className="h-7 px-2 text-xs bg-emerald-500/80 hover:bg-emerald-500 text-white"
+                >
+                  Publish
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="w-full max-w-3xl space-y-4 bg-slate-800/50 p-4 rounded-xl border-2 border-indigo-400/30">
+        <div className="space-y-2">
+          <Label className='text-indigo-200'>Card</Label>
+          <AutocompleteCombobox value={cardName} onValueChange={setCardName} placeholder="Select card..." />
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            id="history-all-workspaces"
+            type="checkbox"
+            checked={allWorkspaces}
+            onChange={(e) => setAllWorkspaces(e.target.checked)}
+            className="h-4 w-4 accent-orange-400"
+          />
+          <Label htmlFor="history-all-workspaces" className='text-indigo-200'>Include other workspaces</Label>
+        </div>
+
+        {isLoading && cardName && <p className="text-xs text-slate-400">Loading history...</p>}
+        {history?.length === 0 && (
+          <p className="text-sm text-slate-400">No thumbnails have used {cardName} yet.</p>
+        )}
+
+        <ul className="space-y-2">
+          {history?.map((use) => (
+            <li key={use.id} className="flex items-center space-x-3 rounded-md bg-slate-700/40 p-2">
+              <Image
+                width={96}
+                height={70}
+                src={use.scryfallArtUrl}
+                alt={`Art used for ${cardName}`}
+                className="w-24 h-auto rounded-sm object-cover"
+              />
+              <div className="min-w-0 flex-grow text-sm">
+                <p className="font-medium text-slate-100 truncate">
+                  {[use.thumbnail?.leftDeckName, use.thumbnail?.rightDeckName].filter(Boolean).join(' vs ') || use.thumbnail?.title}
+                </p>
+                <p className="text-xs text-slate-400">
+                  {format(new Date(use.usedAt), 'PPp')} · {use.thumbnail?.templateName}
+                  {use.slot && ` · ${use.slot}`}
+                  {use.thumbnail?.project && ` · Project: ${use.thumbnail.project.name}`}
+                  {use.workspaceKey !== currentWorkspace?.key && ` · ${findWorkspace(workspaces ?? BUILT_IN_WORKSPACES, use.workspaceKey).name}`}
+                </p>
+              </div>
+              {/* Undo only reaches the current workspace's uses */}
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isUpdating || use.workspaceKey !== currentWorkspace?.key}
+                onClick={() => undoUsageMutation.mutate({ eventId: use.id })}
+                className="h-7 px-2 text-xs text-red-300 hover:text-red-200"
+              >
+                Undo
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </main>
+  );
+}
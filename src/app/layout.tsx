@@ -4,6 +4,7 @@ import { type Metadata, type Viewport } from "next";
 import { Geist } from "next/font/google";
 
 import { TRPCReactProvider } from "~/trpc/react";
+import { AuthGate } from "~/app/_components/AuthGate";
 
 import { Analytics } from "@vercel/analytics/next";
 
@@ -60,7 +61,9 @@ export default function RootLayout({
   return (
     <html lang="en" className={`${geist.variable}`}>
       <body>
-        <TRPCReactProvider>{children}</TRPCReactProvider>
+        <TRPCReactProvider>
+          <AuthGate>{children}</AuthGate>
+        </TRPCReactProvider>
         <Analytics />
       </body>
     </html>
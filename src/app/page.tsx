@@ -1,13 +1,13 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Label } from '~/components/ui/label';
 import { Button } from '~/components/ui/button';
 import ThumbnailCanvas, { type ThumbnailCanvasHandle } from '~/app/_components/ThumbnailCanvas';
 import { AutocompleteCombobox } from '~/app/_components/AutocompleteCombobox';
 import { DeckAutocompleteCombobox } from './_components/DeckAutocompleteCombobox';
 import { api } from '~/trpc/react';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import {
   Dialog,
   DialogOverlay,
@@ -18,33 +18,65 @@ import {
   DialogClose,
 } from '~/components/ui/dialog';
 import Image from 'next/image';
+import Link from 'next/link';
 import { Input } from '~/components/ui/input';
-import { RadioGroup, RadioGroupItem } from '~/components/ui/radio-group';
-
-type CardSlot = 'topLeft' | 'bottomLeft' | 'topRight' | 'bottomRight';
+import { ProjectManager } from '~/app/_components/ProjectManager';
+import { DecklistImport } from '~/app/_components/DecklistImport';
+import { ArtFilterBar } from '~/app/_components/ArtFilterBar';
+import { TextLayerPanel } from '~/app/_components/TextLayerPanel';
+import { FontManager } from '~/app/_components/FontManager';
+import { LogoManager } from '~/app/_components/LogoManager';
+import { ThemeEditor } from '~/app/_components/ThemeEditor';
+import { ExportPanel } from '~/app/_components/ExportPanel';
+import { useUndoHistory } from '~/hooks/useUndoHistory';
+import { useUploadedFonts } from '~/hooks/useUploadedFonts';
+import { getFontStack } from '~/lib/fonts';
+import { BUILT_IN_LOGOS, DEFAULT_LOGO_KEY, findLogo, fitTextAroundLogo } from '~/lib/logos';
+import { BUILT_IN_THEMES, DEFAULT_THEME_KEY, type ThemeDefinition, findTheme } from '~/lib/themes';
+import { BUILT_IN_WORKSPACES, findWorkspace } from '~/lib/workspaces';
+import { hasRole } from '~/lib/auth';
+import {
+  type CardSlot,
+  type CardCrop,
+  TEXT_FONT_FAMILIES,
+  getThumbnailTitle,
+} from '~/lib/thumbnail';
+import type { ProjectSnapshot } from '~/lib/project';
+import {
+  ART_TREATMENT_LABELS,
+  type ArtFilters,
+  type CardArt,
+  DEFAULT_ART_FILTERS,
+  filterAndSortArts,
+  getArtTreatments,
+} from '~/lib/cardArt';
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_KEY,
+  type ArtSlot,
+  type TextLayerStyle,
+  type TextLayerStyles,
+  applyTextLayerStyles,
+  findTemplate,
+  getArtSlots,
+  getTemplateBindings,
+  getTextLayers,
+} from '~/lib/template';
 
 interface CardState {
   name: string;
   artUrl: string | null;
   scryfallCardId: string | null;
+  crop: CardCrop | null;
 }
 
-const initialCardState: CardState = { name: '', artUrl: null, scryfallCardId: null };
-
-interface SelectedArtType {
-  artUrl: string;
-  set: string;
-  scryfallPrintId: string;
-  artist?: string;
-}
+const initialCardState: CardState = { name: '', artUrl: null, scryfallCardId: null, crop: null };
 
 interface ArtUsageInfoType {
   scryfallArtUrl: string;
   lastUsedAt: Date;
 }
 
-export type ThumbnailType = "Video" | "Stream";
-
 const STALE_TIME_CARDS = 1000 * 60 * 10;
 const STALE_TIME_USAGE = 1000 * 60 * 5;
 
@@ -53,105 +85,158 @@ export default function HomePage() {
   const [rightDeckName, setRightDeckName] = useState('');
   const thumbnailCanvasRef = useRef<ThumbnailCanvasHandle>(null);
 
-  const [thumbnailType, setThumbnailType] = useState<ThumbnailType>("Video");
+  const [templateKey, setTemplateKey] = useState(DEFAULT_TEMPLATE_KEY);
   const [streamDate, setStreamDate] = useState('');
   const [eventName, setEventName] = useState('MODERN FNM');
   const [bottomText, setBottomText] = useState('LIVE!');
 
-  const [cardStates, setCardStates] = useState<Record<CardSlot, CardState>>({
-    topLeft: { ...initialCardState },
-    bottomLeft: { ...initialCardState },
-    topRight: { ...initialCardState },
-    bottomRight: { ...initialCardState },
-  });
+  // Keyed by the current template's slot ids; slots without an entry are empty
+  const [cardStates, setCardStates] = useState<Record<CardSlot, CardState>>({});
+  // Keyed by text region index in the current template; regions without an entry keep the template's styling
+  const [textStyles, setTextStyles] = useState<TextLayerStyles>({});
+  const [selectedTextLayer, setSelectedTextLayer] = useState<string | null>(null);
 
   const [isArtDialogOpen, setIsArtDialogOpen] = useState(false);
   const [currentSlotForArtSelection, setCurrentSlotForArtSelection] = useState<CardSlot | null>(null);
-  const [artUrlsForSelection, setArtUrlsForSelection] = useState<SelectedArtType[]>([]);
+  const [artUrlsForSelection, setArtUrlsForSelection] = useState<CardArt[]>([]);
   const [selectedCardNameForArt, setSelectedCardNameForArt] = useState<string>('');
   
   const [artUsageMap, setArtUsageMap] = useState<Record<string, Date | null>>({});
+  const [artFilters, setArtFilters] = useState<ArtFilters>(DEFAULT_ART_FILTERS);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  // The draft saved by the last download, until it's published or the editor moves on
+  const [currentThumbnail, setCurrentThumbnail] = useState<{ id: string; status: string } | null>(null);
 
   // State for logo selection
-  const [selectedLogo, setSelectedLogo] = useState<'default' | 'ocho'>('default');
+  const [selectedLogo, setSelectedLogo] = useState(DEFAULT_LOGO_KEY);
+  const [themeKey, setThemeKey] = useState(DEFAULT_THEME_KEY);
+  const [isThemeEditorOpen, setIsThemeEditorOpen] = useState(false);
+  const [themePreview, setThemePreview] = useState<ThemeDefinition | null>(null);
 
   // State for custom background
   const [customBgUrl, setCustomBgUrl] = useState<string | null>(null);
   const [customBgScale, setCustomBgScale] = useState<number>(1);
 
-  useEffect(() => {
-    // Clear card images when thumbnail type changes
-    setCardStates({
-      topLeft: { ...initialCardState },
-      bottomLeft: { ...initialCardState },
-      topRight: { ...initialCardState },
-      bottomRight: { ...initialCardState },
-    });
+  const { fonts, isReady: areFontsReady, fontsVersion } = useUploadedFonts();
+  const fontFamilies = [...new Set([...fonts.map((font) => getFontStack(font.family)), ...TEXT_FONT_FAMILIES])];
 
-    if (thumbnailType === "Stream") {
-      setLeftDeckName('');
-      setRightDeckName('');
-    }
-  }, [thumbnailType]);
+  const logosQuery = api.logo.list.useQuery(undefined, { staleTime: STALE_TIME_CARDS });
+  const logos = logosQuery.data ?? BUILT_IN_LOGOS;
+  const logo = findLogo(logos, selectedLogo);
+
+  const themesQuery = api.theme.list.useQuery(undefined, { staleTime: STALE_TIME_CARDS });
+  const themes = themesQuery.data ?? BUILT_IN_THEMES;
+  const theme = findTheme(themes, themeKey);
+
+  // Only needed to say which channel used an art when usage from all workspaces is shown
+  const workspacesQuery = api.workspace.list.useQuery(undefined, { staleTime: STALE_TIME_CARDS });
+  const { data: currentWorkspace } = api.workspace.current.useQuery(undefined, { staleTime: STALE_TIME_CARDS });
+
+  const templatesQuery = api.template.list.useQuery(undefined, { staleTime: STALE_TIME_CARDS });
+  const templates = templatesQuery.data ?? BUILT_IN_TEMPLATES;
+  const template = findTemplate(templates, templateKey);
+  const templateBindings = getTemplateBindings(template.definition);
+  const artSlots = getArtSlots(template.definition);
+  const selectedTextLayerInfo = getTextLayers(template.definition).find((layer) => layer.key === selectedTextLayer);
+  const textValues = { leftDeckName, rightDeckName, streamDate, eventName, bottomText };
+
+  const handleTemplateChange = (key: string) => {
+    setTemplateKey(key);
+
+    // Clear card images and text styling when the template changes; undo brings them back
+    setCardStates({});
+    setTextStyles({});
+    setSelectedTextLayer(null);
 
-  const cardArtsQuery = api.scryfall.getCardArts.useQuery(
+    const bindings = getTemplateBindings(findTemplate(templates, key).definition);
+    if (!bindings.has('leftDeckName')) setLeftDeckName('');
+    if (!bindings.has('rightDeckName')) setRightDeckName('');
+  };
+
+  // Streamed a page of results at a time, so `data` grows while `isFetching` is true
+  const cardArtsQuery = api.scryfall.streamCardArts.useQuery(
     { cardName: selectedCardNameForArt },
     {
       enabled: !!selectedCardNameForArt && !!currentSlotForArtSelection,
       staleTime: STALE_TIME_CARDS, 
     }
   );
+  const streamedCardArts = useMemo(() => cardArtsQuery.data?.flat(), [cardArtsQuery.data]);
+
+  // The same arts ranked for the slot being filled, once every page has streamed in
+  const selectionAspectRatio = artSlots.find(({ slot }) => slot === currentSlotForArtSelection)?.aspectRatio;
+  const rankedArtsQuery = api.scryfall.getCardArts.useQuery(
+    { cardName: selectedCardNameForArt, aspectRatio: selectionAspectRatio, allWorkspaces: artFilters.allWorkspaces },
+    {
+      enabled: isArtDialogOpen && !!selectedCardNameForArt && !cardArtsQuery.isFetching,
+      staleTime: STALE_TIME_USAGE,
+    }
+  );
+  const recommendedArtUrl = rankedArtsQuery.data?.[0]?.artUrl;
   
-  const recordArtUsageMutation = api.art.recordArtUsage.useMutation();
-  const saveDeckMutation = api.deck.saveOrUpdateDeckName.useMutation();
+  const utils = api.useUtils();
+  const { data: me } = api.auth.me.useQuery();
+  const saveThumbnailDraftMutation = api.thumbnail.saveDraft.useMutation({
+    onSuccess: (thumbnail) => {
+      setCurrentThumbnail({ id: thumbnail.id, status: thumbnail.status });
+      return utils.thumbnail.list.invalidate();
+    },
+  });
+  // Publishing is what counts a thumbnail's arts and decks as used, so both refresh usage
+  const invalidateUsage = () =>
+    Promise.all([
+      utils.art.getArtUsage.invalidate(),
+      utils.art.getCardHistory.invalidate(),
+      utils.thumbnail.list.invalidate(),
+      utils.deck.autocompleteDeckName.invalidate(),
+    ]);
+  const publishThumbnailMutation = api.thumbnail.publish.useMutation({
+    onSuccess: (thumbnail) => {
+      setCurrentThumbnail({ id: thumbnail.id, status: thumbnail.status });
+      return invalidateUsage();
+    },
+  });
+  const unpublishThumbnailMutation = api.thumbnail.unpublish.useMutation({
+    onSuccess: (thumbnail) => {
+      setCurrentThumbnail({ id: thumbnail.id, status: thumbnail.status });
+      return invalidateUsage();
+    },
+  });
+  const editDeckProfileMutation = api.deck.editProfile.useMutation({
+    onSuccess: () => utils.deck.getProfile.invalidate(),
+  });
 
   const artUsageQueryUrls = artUrlsForSelection.map(art => art.artUrl);
   const artUsageQuery = api.art.getArtUsage.useQuery(
-    { artUrls: artUsageQueryUrls },
+    { artUrls: artUsageQueryUrls, allWorkspaces: artFilters.allWorkspaces },
     {
       enabled: artUsageQueryUrls.length > 0 && isArtDialogOpen, 
       staleTime: STALE_TIME_USAGE, 
     }
   );
+  const visibleArts = filterAndSortArts(rankedArtsQuery.data ?? artUrlsForSelection, artFilters, artUsageMap);
 
-  // Card usage queries
-  const cardQueries = {
-    topLeft: api.scryfall.getCardArts.useQuery(
-      { cardName: cardStates.topLeft.name },
-      { enabled: !!cardStates.topLeft.name, staleTime: STALE_TIME_CARDS }
-    ),
-    bottomLeft: api.scryfall.getCardArts.useQuery(
-      { cardName: cardStates.bottomLeft.name },
-      { enabled: !!cardStates.bottomLeft.name, staleTime: STALE_TIME_CARDS }
-    ),
-    topRight: api.scryfall.getCardArts.useQuery(
-      { cardName: cardStates.topRight.name },
-      { enabled: !!cardStates.topRight.name, staleTime: STALE_TIME_CARDS }
-    ),
-    bottomRight: api.scryfall.getCardArts.useQuery(
-      { cardName: cardStates.bottomRight.name },
-      { enabled: !!cardStates.bottomRight.name, staleTime: STALE_TIME_CARDS }
-    ),
-  };
+  const getCardState = (slot: CardSlot) => cardStates[slot] ?? initialCardState;
 
-  const usageQueries = {
-    topLeft: api.art.getArtUsage.useQuery(
-      { artUrls: cardQueries.topLeft.data?.map(art => art.artUrl) ?? [] },
-      { enabled: !!cardQueries.topLeft.data?.length, staleTime: STALE_TIME_USAGE }
-    ),
-    bottomLeft: api.art.getArtUsage.useQuery(
-      { artUrls: cardQueries.bottomLeft.data?.map(art => art.artUrl) ?? [] },
-      { enabled: !!cardQueries.bottomLeft.data?.length, staleTime: STALE_TIME_USAGE }
-    ),
-    topRight: api.art.getArtUsage.useQuery(
-      { artUrls: cardQueries.topRight.data?.map(art => art.artUrl) ?? [] },
-      { enabled: !!cardQueries.topRight.data?.length, staleTime: STALE_TIME_USAGE }
-    ),
-    bottomRight: api.art.getArtUsage.useQuery(
-      { artUrls: cardQueries.bottomRight.data?.map(art => art.artUrl) ?? [] },
-      { enabled: !!cardQueries.bottomRight.data?.length, staleTime: STALE_TIME_USAGE }
-    ),
-  };
+  // Card usage queries, one per slot in the template
+  const cardQueries = api.useQueries((t) =>
+    artSlots.map(({ slot }) => {
+      const cardName = getCardState(slot).name;
+      return t.scryfall.getCardArts({ cardName }, { enabled: !!cardName, staleTime: STALE_TIME_CARDS });
+    })
+  );
+
+  const usageQueryResults = api.useQueries((t) =>
+    cardQueries.map((cardQuery) =>
+      t.art.getArtUsage(
+        { artUrls: cardQuery.data?.map(art => art.artUrl) ?? [], allWorkspaces: artFilters.allWorkspaces },
+        { enabled: !!cardQuery.data?.length, staleTime: STALE_TIME_USAGE }
+      )
+    )
+  );
+  const usageQueries = Object.fromEntries(
+    artSlots.map(({ slot }, index) => [slot, usageQueryResults[index]])
+  );
 
   useEffect(() => {
     if (artUsageQuery.isSuccess && artUsageQuery.data) {
@@ -166,6 +251,22 @@ export default function HomePage() {
     }
   }, [artUsageQuery.isSuccess, artUsageQuery.data, artUsageQuery.isError, artUsageQuery.error]);
 
+  // "Used 4 times, last in Rakdos Scam vs Amulet Titan on 9/12/2026", naming the workspace when it's another one
+  const describeArtUsage = (artUrl: string) => {
+    const lastUsedAt = artUsageMap[artUrl];
+    if (!lastUsedAt) return null;
+    const usage = artUsageQuery.data?.find((record) => record.scryfallArtUrl === artUrl);
+    const useCount = usage?.useCount ?? 1;
+    const lastUsedIn = usage?.lastUsedIn;
+    const matchup = lastUsedIn ? [lastUsedIn.leftDeckName, lastUsedIn.rightDeckName].filter(Boolean).join(' vs ') : '';
+    const usedElsewhere = usage && currentWorkspace && usage.workspaceKey !== currentWorkspace.key;
+    const where = usedElsewhere ? ` (${findWorkspace(workspacesQuery.data ?? BUILT_IN_WORKSPACES, usage.workspaceKey).name})` : '';
+    const lastUse = lastUsedIn && matchup
+      ? `last in ${matchup}${where} on ${format(new Date(lastUsedIn.usedAt), 'P')}`
+      : `last${where} on ${format(new Date(lastUsedAt), 'P')}`;
+    return `Used ${useCount} ${useCount === 1 ? 'time' : 'times'}, ${lastUse}`;
+  };
+
   // Helper function to get most recent usage date from usage data
   const getMostRecentUsage = (usageData: ArtUsageInfoType[] | undefined) => {
     if (!usageData || usageData.length === 0) return null;
@@ -188,6 +289,8 @@ export default function HomePage() {
       setCurrentSlotForArtSelection(slot);
       setArtUrlsForSelection([]); 
       setArtUsageMap({}); 
+      // Sets and artists differ from card to card, so only the sort order and usage scope carry over
+      setArtFilters((prev) => ({ ...DEFAULT_ART_FILTERS, sort: prev.sort, allWorkspaces: prev.allWorkspaces }));
     } else {
       setSelectedCardNameForArt('');
       setCurrentSlotForArtSelection(null);
@@ -197,30 +300,58 @@ export default function HomePage() {
     }
   }, []);
 
+  // Reopen an art with the framing it had the last time it went into a thumbnail
+  const applyRememberedCrop = useCallback(async (slot: CardSlot, artUrl: string) => {
+    try {
+      const [usage] = await utils.art.getArtUsage.fetch({ artUrls: [artUrl] });
+      const lastCrop = usage?.lastCrop;
+      if (!lastCrop) return;
+      setCardStates((prev) => {
+        const current = prev[slot];
+        return current?.artUrl === artUrl && !current.crop
+          ? { ...prev, [slot]: { ...current, crop: lastCrop } }
+          : prev;
+      });
+    } catch (error) {
+      console.error("Failed to load last used crop:", error);
+    }
+  }, [utils]);
+
   useEffect(() => {
-    if (cardArtsQuery.isSuccess && cardArtsQuery.data) {
-      if (cardArtsQuery.data.length === 1) {
+    if (cardArtsQuery.isSuccess && streamedCardArts) {
+      if (cardArtsQuery.isFetching) {
+        // More pages are on the way, so only open the dialog once there's a choice to make
+        if (streamedCardArts.length > 1 && currentSlotForArtSelection) {
+          setArtUrlsForSelection(streamedCardArts);
+          setIsArtDialogOpen(true);
+        }
+        return;
+      }
+
+      if (streamedCardArts.length === 1) {
         // Auto-select if only one art option exists
         if (currentSlotForArtSelection) {
-          const selectedArt = cardArtsQuery.data[0];
+          const selectedArt = streamedCardArts[0];
           if (selectedArt) {
             setCardStates((prev) => ({
               ...prev,
               [currentSlotForArtSelection]: {
-                ...prev[currentSlotForArtSelection],
+                ...(prev[currentSlotForArtSelection] ?? initialCardState),
                 artUrl: selectedArt.artUrl,
                 scryfallCardId: selectedArt.scryfallPrintId,
+                crop: null,
               },
             }));
+            void applyRememberedCrop(currentSlotForArtSelection, selectedArt.artUrl);
           }
           // Reset selection state
           setCurrentSlotForArtSelection(null);
           setSelectedCardNameForArt('');
           setArtUrlsForSelection([]);
         }
-      } else if (cardArtsQuery.data.length > 1) {
+      } else if (streamedCardArts.length > 1) {
         // Multiple options - show dialog
-        setArtUrlsForSelection(cardArtsQuery.data);
+        setArtUrlsForSelection(streamedCardArts);
         if (currentSlotForArtSelection) setIsArtDialogOpen(true);
       } else {
         console.warn("No art found for", selectedCardNameForArt);
@@ -238,44 +369,174 @@ export default function HomePage() {
         handleCardSelection(currentSlotForArtSelection, '');
       }
     }
-  }, [cardArtsQuery.isSuccess, cardArtsQuery.isError, cardArtsQuery.data, cardArtsQuery.error, selectedCardNameForArt, currentSlotForArtSelection, handleCardSelection]);
+  }, [cardArtsQuery.isSuccess, cardArtsQuery.isFetching, cardArtsQuery.isError, streamedCardArts, cardArtsQuery.error, selectedCardNameForArt, currentSlotForArtSelection, handleCardSelection, applyRememberedCrop]);
 
-  const handleArtSelectionFromDialog = (selectedArt: SelectedArtType) => {
+  const handleArtSelectionFromDialog = (selectedArt: CardArt) => {
     if (currentSlotForArtSelection) {
       setCardStates((prev) => ({
         ...prev,
         [currentSlotForArtSelection]: {
-          ...prev[currentSlotForArtSelection],
+          ...(prev[currentSlotForArtSelection] ?? initialCardState),
           artUrl: selectedArt.artUrl,
           scryfallCardId: selectedArt.scryfallPrintId, 
+          crop: null,
         },
       }));
+      void applyRememberedCrop(currentSlotForArtSelection, selectedArt.artUrl);
     }
     closeArtDialogAndReset();
   };
 
   const closeArtDialogAndReset = () => {
     setIsArtDialogOpen(false);
+    // Stop following the search, or pages still streaming in would reopen the dialog
+    setCurrentSlotForArtSelection(null);
+    setSelectedCardNameForArt('');
     setArtUsageMap({});
   };
 
-  const swapCards = useCallback((side: 'left' | 'right') => {
+  // Moves each card down to the next slot, wrapping the last one around to the first
+  const rotateCards = useCallback((slots: CardSlot[]) => {
+    setCardStates(prev => {
+      const next = { ...prev };
+      slots.forEach((slot, index) => {
+        next[slot] = prev[slots[(index + slots.length - 1) % slots.length]!] ?? { ...initialCardState };
+      });
+      return next;
+    });
+  }, []);
+
+  const handleTextStyleChange = useCallback((key: string, style: TextLayerStyle) => {
+    setTextStyles(prev => ({ ...prev, [key]: { ...prev[key], ...style } }));
+  }, []);
+
+  const resetTextStyle = (key: string) => {
+    setTextStyles(prev => Object.fromEntries(Object.entries(prev).filter(([styledKey]) => styledKey !== key)));
+  };
+
+  const handleCropChange = useCallback((slot: CardSlot, crop: CardCrop) => {
     setCardStates(prev => ({
       ...prev,
-      ...(side === 'left' ? {
-        topLeft: prev.bottomLeft,
-        bottomLeft: prev.topLeft,
-      } : {
-        topRight: prev.bottomRight,
-        bottomRight: prev.topRight,
-      })
+      [slot]: { ...(prev[slot] ?? initialCardState), crop },
     }));
   }, []);
 
+  const getProjectSnapshot = (): ProjectSnapshot => ({
+    leftDeckName,
+    rightDeckName,
+    templateKey,
+    streamDate,
+    eventName,
+    bottomText,
+    selectedLogo,
+    themeKey,
+    customBgUrl,
+    customBgScale,
+    cardStates: Object.fromEntries(artSlots.map(({ slot }) => [slot, getCardState(slot)])),
+    textStyles,
+  });
+
+  const applyEditorState = useCallback((snapshot: ProjectSnapshot) => {
+    setTemplateKey(snapshot.templateKey);
+    setLeftDeckName(snapshot.leftDeckName);
+    setRightDeckName(snapshot.rightDeckName);
+    setStreamDate(snapshot.streamDate);
+    setEventName(snapshot.eventName);
+    setBottomText(snapshot.bottomText);
+    setSelectedLogo(snapshot.selectedLogo);
+    setThemeKey(snapshot.themeKey);
+    setCustomBgUrl(snapshot.customBgUrl);
+    setCustomBgScale(snapshot.customBgScale);
+    setCardStates(snapshot.cardStates);
+    setTextStyles(snapshot.textStyles);
+  }, []);
+
+  // Everything undo and redo cover. Unlike a project snapshot, it keeps cards in slots the current
+  // template doesn't have, so undoing a template switch brings them back.
+  const editorState = useMemo<ProjectSnapshot>(() => ({
+    leftDeckName,
+    rightDeckName,
+    templateKey,
+    streamDate,
+    eventName,
+    bottomText,
+    selectedLogo,
+    themeKey,
+    customBgUrl,
+    customBgScale,
+    cardStates,
+    textStyles,
+  }), [leftDeckName, rightDeckName, templateKey, streamDate, eventName, bottomText, selectedLogo, themeKey, customBgUrl, customBgScale, cardStates, textStyles]);
+  const { undo, redo, canUndo, canRedo } = useUndoHistory(editorState, applyEditorState);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isArtDialogOpen) return;
+      // Text fields keep the browser's own undo for what's being typed
+      const target = e.target as HTMLElement | null;
+      if (target?.isContentEditable || target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA') return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, isArtDialogOpen]);
+
+  const applyProjectSnapshot = (snapshot: ProjectSnapshot) => {
+    applyEditorState(snapshot);
+    // A loaded project is a different thumbnail; its next download starts a new draft
+    setCurrentThumbnail(null);
+  };
+
+  // Fills a side's slots, in order, with the key cards from the picked deck's profile
+  const applyDeckProfile = async (side: 'left' | 'right', deckName: string) => {
+    const slots = artSlots.filter((artSlot) => artSlot.side === side).map(({ slot }) => slot);
+    try {
+      const profile = await utils.deck.resolveKeyCards.fetch({ name: deckName });
+      if (!profile) return;
+
+      // Picking an alias switches to the deck's main name, whether or not it has key cards
+      if (profile.name !== deckName) {
+        (side === 'left' ? setLeftDeckName : setRightDeckName)(profile.name);
+      }
+      if (profile.cards.length === 0) return;
+
+      const filled = profile.cards.slice(0, slots.length).map((card, index) => ({ slot: slots[index]!, card }));
+      setCardStates((prev) => {
+        const next = { ...prev };
+        filled.forEach(({ slot, card }) => {
+          next[slot] = { name: card.cardName, artUrl: card.artUrl, scryfallCardId: card.scryfallCardId, crop: null };
+        });
+        return next;
+      });
+      filled.forEach(({ slot, card }) => {
+        if (card.artUrl) void applyRememberedCrop(slot, card.artUrl);
+      });
+    } catch (error) {
+      console.error("Failed to apply deck profile:", error);
+    }
+  };
+
+  const saveSideAsKeyCards = (side: 'left' | 'right') => {
+    const deckName = (side === 'left' ? leftDeckName : rightDeckName).trim();
+    if (!deckName) return;
+    const keyCards = artSlots
+      .filter((artSlot) => artSlot.side === side)
+      .map(({ slot }) => getCardState(slot))
+      .filter((cardState) => cardState.name)
+      .map((cardState) => ({
+        cardName: cardState.name,
+        artUrl: cardState.artUrl,
+        scryfallCardId: cardState.scryfallCardId,
+      }));
+    editDeckProfileMutation.mutate({ name: deckName, profile: { keyCards } });
+  };
+
   const handleDialogClose = (open: boolean) => {
     setIsArtDialogOpen(open);
     if (!open) {
-        if (currentSlotForArtSelection && !cardStates[currentSlotForArtSelection].artUrl) {
+        if (currentSlotForArtSelection && !cardStates[currentSlotForArtSelection]?.artUrl) {
             handleCardSelection(currentSlotForArtSelection, '');
         }
         setCurrentSlotForArtSelection(null);
@@ -285,58 +546,46 @@ export default function HomePage() {
     }
   };
 
-  const handleDownload = () => {
-    console.log('Download triggered');
-    const stage = thumbnailCanvasRef.current?.getStageInstance();
-
-    if (stage) {
-      if (leftDeckName.trim()) {
-        saveDeckMutation.mutate({ name: leftDeckName.trim() });
-      }
-      if (rightDeckName.trim()) {
-        saveDeckMutation.mutate({ name: rightDeckName.trim() });
-      }
-
-      // Record art usage for all selected arts
-      Object.values(cardStates).forEach(cardState => {
-        if (cardState.artUrl && cardState.scryfallCardId) {
-          recordArtUsageMutation.mutate({
-            scryfallArtUrl: cardState.artUrl,
-            scryfallCardId: cardState.scryfallCardId,
-          });
-        }
-      });
+  // Save the thumbnail as a draft on every export; its arts and decks count as used once it's published.
+  // Viewers can download but not save drafts.
+  const handleExport = () => {
+    if (!me || !hasRole(me.role, 'editor')) return;
+    saveThumbnailDraftMutation.mutate({
+      id: currentThumbnail?.id,
+      title: getThumbnailTitle(template.definition.fileName, textValues),
+      templateKey: template.key,
+      templateName: template.name,
+      leftDeckName: leftDeckName.trim(),
+      rightDeckName: rightDeckName.trim(),
+      projectId: currentProjectId,
+      cards: artSlots.flatMap(({ slot }) => {
+        const cardState = getCardState(slot);
+        if (!cardState.name || !cardState.artUrl || !cardState.scryfallCardId) return [];
+        return [{
+          slot,
+          cardName: cardState.name,
+          scryfallArtUrl: cardState.artUrl,
+          scryfallCardId: cardState.scryfallCardId,
+          crop: cardState.crop,
+        }];
+      }),
+    });
+  };
 
-      const dataURL = stage.toDataURL({ pixelRatio: 1.3334 });
-      const link = document.createElement('a');
-
-      // Helper function to convert string to PascalCase
-      const toPascalCase = (str: string) => {
-        return str
-          .replace(/[^\w\s-]/gi, '') // Remove special characters except hyphens and spaces
-          .replace(/\s+|-+/g, ' ') // Replace hyphens and multiple spaces with a single space
-          .split(' ')
-          .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-          .join('');
-      };
-
-      let fileName = '';
-      if (thumbnailType === "Stream") {
-        const formattedDate = streamDate.replace(/\//g, '-') || 'NoDate';
-        fileName = `Livestream-${formattedDate}.png`;
-      } else {
-        const pascalLeftDeckName = toPascalCase(leftDeckName || 'Deck1');
-        const pascalRightDeckName = toPascalCase(rightDeckName || 'Deck2');
-        fileName = `${pascalLeftDeckName}Vs${pascalRightDeckName}.png`;
-      }
-      link.download = fileName;
-      link.href = dataURL;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    } else {
-      console.error("Konva stage instance could not be retrieved via ref.");
-    }
+  // Canvas inputs shared by the editor canvas and the export panel's re-laid-out canvases
+  const canvasProps = {
+    leftDeckName,
+    rightDeckName,
+    artUrls: Object.fromEntries(artSlots.map(({ slot }) => [slot, getCardState(slot).artUrl])),
+    logo,
+    theme: themePreview ?? theme.definition,
+    streamDate,
+    eventName,
+    bottomText,
+    customBgUrl,
+    customBgScale,
+    crops: Object.fromEntries(artSlots.map(({ slot }) => [slot, getCardState(slot).crop])),
+    fontsVersion,
   };
 
   const handleBgUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -350,9 +599,9 @@ export default function HomePage() {
   };
 
   const renderUsageInfo = (slot: CardSlot) => {
-    const cardName = cardStates[slot].name;
-    const usageData = usageQueries[slot].data;
-    const isLoading = usageQueries[slot].isLoading;
+    const cardName = getCardState(slot).name;
+    const usageData = usageQueries[slot]?.data;
+    const isLoading = usageQueries[slot]?.isLoading;
     
     if (!cardName || isLoading) return null;
 
@@ -370,32 +619,50 @@ export default function HomePage() {
     );
   };
 
-  const renderCardInput = (slot: CardSlot, label: string, placeholder: string) => (
-    <div className="space-y-2">
+  const renderCardInput = ({ slot, label }: ArtSlot) => (
+    <div key={slot} className="space-y-2">
       <Label htmlFor={slot} className='text-indigo-200'>{label}</Label>
       <AutocompleteCombobox
-        value={cardStates[slot].name}
+        value={getCardState(slot).name}
         onValueChange={(name) => handleCardSelection(slot, name)}
-        placeholder={placeholder}
+        placeholder={`Search ${label}...`}
       />
       {renderUsageInfo(slot)}
     </div>
   );
 
   const renderSwapButton = (side: 'left' | 'right') => {
-    const hasCards = side === 'left' 
-      ? cardStates.topLeft.name || cardStates.bottomLeft.name
-      : cardStates.topRight.name || cardStates.bottomRight.name;
+    const slots = artSlots.filter((artSlot) => artSlot.side === side).map(({ slot }) => slot);
+    if (slots.length < 2) return null;
+    const hasCards = slots.some((slot) => getCardState(slot).name);
 
     return (
       <Button
-        onClick={() => swapCards(side)}
+        onClick={() => rotateCards(slots)}
         disabled={!hasCards}
         variant="outline"
         size="sm"
         className="w-full border-purple-500/50 text-purple-300 hover:text-purple-200 hover:border-purple-400 bg-purple-500/10 hover:bg-purple-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
       >
-        ↕️ Swap Top & Bottom
+        {slots.length === 2 ? '↕️ Swap Top & Bottom' : '🔄 Rotate Cards'}
+      </Button>
+    );
+  };
+
+  const renderSaveKeyCardsButton = (side: 'left' | 'right') => {
+    const deckName = side === 'left' ? leftDeckName : rightDeckName;
+    const hasCards = artSlots.some((artSlot) => artSlot.side === side && getCardState(artSlot.slot).name);
+    if (!deckName.trim()) return null;
+
+    return (
+      <Button
+        onClick={() => saveSideAsKeyCards(side)}
+        disabled={!hasCards || editDeckProfileMutation.isPending}
+        variant="ghost"
+        size="sm"
+        className="w-full text-xs text-indigo-300 hover:text-indigo-200"
+      >
+        Use these cards for {deckName.trim()} next time
       </Button>
     );
   };
@@ -414,13 +681,20 @@ export default function HomePage() {
                 <DeckAutocompleteCombobox
                   value={leftDeckName}
                   onValueChange={setLeftDeckName}
+                  onSelect={(deckName) => void applyDeckProfile('left', deckName)}
                   placeholder="Enter Left Deck Name..."
-                  disabled={thumbnailType === "Stream"}
+                  disabled={!templateBindings.has('leftDeckName')}
+                />
+                <DecklistImport
+                  deckName={leftDeckName}
+                  slots={artSlots.filter((artSlot) => artSlot.side === 'left')}
+                  isSlotFilled={(slot) => !!getCardState(slot).name}
+                  onSelectCard={handleCardSelection}
                 />
               </div>
-              {renderCardInput('topLeft', 'Top Left Card', 'Search Top Left Card...')}
-              {renderCardInput('bottomLeft', 'Bottom Left Card', 'Search Bottom Left Card...')}
+              {artSlots.filter((artSlot) => artSlot.side === 'left').map(renderCardInput)}
               {renderSwapButton('left')}
+              {renderSaveKeyCardsButton('left')}
 
               {/* Custom Background Upload Section */}
               <div className="space-y-2">
@@ -455,12 +729,71 @@ export default function HomePage() {
                 <select
                   id="logo-selection"
                   value={selectedLogo}
-                  onChange={(e) => setSelectedLogo(e.target.value as 'default' | 'ocho')}
+                  onChange={(e) => setSelectedLogo(e.target.value)}
                   className="w-full bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-3 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
                 >
-                  <option value="default">Default</option>
-                  <option value="ocho">OCHO</option>
+                  {logos.map((option) => (
+                    <option key={option.key} value={option.key}>{option.name}</option>
+                  ))}
                 </select>
+                <LogoManager
+                  logo={logo}
+                  onUploaded={setSelectedLogo}
+                  onDeleted={(key) => {
+                    if (key === selectedLogo) setSelectedLogo(DEFAULT_LOGO_KEY);
+                  }}
+                />
+              </div>
+
+              {/* Theme Selection Section */}
+              <div className="space-y-2 border-t border-indigo-400/30 pt-4 mt-4">
+                <Label htmlFor="theme-selection" className='text-indigo-200'>Theme</Label>
+                <div className="flex space-x-2">
+                  <select
+                    id="theme-selection"
+                    value={theme.key}
+                    onChange={(e) => {
+                      setThemeKey(e.target.value);
+                      setIsThemeEditorOpen(false);
+                      setThemePreview(null);
+                    }}
+                    className="flex-grow bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-3 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    {themes.map((option) => (
+                      <option key={option.key} value={option.key}>{option.name}</option>
+                    ))}
+                  </select>
+                  {!isThemeEditorOpen && (
+                    <Button variant="outline" size="sm" onClick={() => setIsThemeEditorOpen(true)}>
+                      {theme.builtIn ? 'New' : 'Edit'}
+                    </Button>
+                  )}
+                </div>
+                {isThemeEditorOpen && (
+                  <ThemeEditor
+                    key={theme.key}
+                    theme={theme}
+                    onPreview={setThemePreview}
+                    onSaved={(key) => {
+                      setThemeKey(key);
+                      setIsThemeEditorOpen(false);
+                      setThemePreview(null);
+                    }}
+                    onDeleted={() => {
+                      setThemeKey(DEFAULT_THEME_KEY);
+                      setIsThemeEditorOpen(false);
+                      setThemePreview(null);
+                    }}
+                    onClose={() => {
+                      setIsThemeEditorOpen(false);
+                      setThemePreview(null);
+                    }}
+                  />
+                )}
+              </div>
+
+              <div className="border-t border-indigo-400/30 pt-4 mt-4">
+                <FontManager fonts={fonts} />
               </div>
             </div>
           </div>
@@ -474,22 +807,94 @@ export default function HomePage() {
             >
               <ThumbnailCanvas 
                 ref={thumbnailCanvasRef}
-                leftDeckName={leftDeckName}
-                rightDeckName={rightDeckName}
-                topLeftArtUrl={cardStates.topLeft.artUrl}
-                bottomLeftArtUrl={cardStates.bottomLeft.artUrl}
-                topRightArtUrl={cardStates.topRight.artUrl}
-                bottomRightArtUrl={cardStates.bottomRight.artUrl}
-                selectedLogo={selectedLogo}
-                thumbnailType={thumbnailType}
-                streamDate={streamDate}
-                eventName={eventName}
-                bottomText={bottomText}
-                customBgUrl={customBgUrl}
-                customBgScale={customBgScale}
+                template={template.definition}
+                {...canvasProps}
+                onCropChange={handleCropChange}
+                textStyles={textStyles}
+                selectedTextLayer={selectedTextLayer}
+                onSelectTextLayer={setSelectedTextLayer}
+                onTextStyleChange={handleTextStyleChange}
+              />
+            </div>
+            {selectedTextLayerInfo ? (
+              <TextLayerPanel
+                layer={selectedTextLayerInfo}
+                style={textStyles[selectedTextLayerInfo.key]}
+                fontFamilies={fontFamilies}
+                onChange={(style) => handleTextStyleChange(selectedTextLayerInfo.key, style)}
+                onReset={() => resetTextStyle(selectedTextLayerInfo.key)}
+                onClose={() => setSelectedTextLayer(null)}
               />
+            ) : (
+              <p className="text-xs text-slate-400">Click any text on the thumbnail to move, resize or restyle it.</p>
+            )}
+            <div className="flex w-full justify-end space-x-2">
+              <Button variant="outline" size="sm" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                Undo
+              </Button>
+              <Button variant="outline" size="sm" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+                Redo
+              </Button>
+            </div>
+            <ExportPanel
+              canvasRef={thumbnailCanvasRef}
+              template={{
+                ...template.definition,
+                regions: applyTextLayerStyles({ ...template.definition, regions: fitTextAroundLogo(template.definition.regions, logo) }, textStyles),
+              }}
+              canvasProps={canvasProps}
+              title={getThumbnailTitle(template.definition.fileName, textValues)}
+              disabled={!areFontsReady}
+              disabledLabel="Loading fonts..."
+              onExport={handleExport}
+            />
+            {currentThumbnail && (
+              <div className="flex w-full items-center justify-between rounded-md bg-slate-700/40 px-3 py-2 text-sm">
+                {currentThumbnail.status === 'published' ? (
+                  <>
+                    <span className="text-emerald-300">Published · arts and decks marked as used</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={unpublishThumbnailMutation.isPending}
+                      onClick={() => unpublishThumbnailMutation.mutate({ id: currentThumbnail.id })}
+                      className="h-7 px-2 text-xs text-indigo-300 hover:text-indigo-200"
+                    >
+                      Undo
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="text-slate-300">Draft saved · not counted as used yet</span>
+                    <Button
+                      size="sm"
+                      disabled={publishThumbnailMutation.isPending || saveThumbnailDraftMutation.isPending}
+                      onClick={() => publishThumbnailMutation.mutate({ id: currentThumbnail.id })}
+                      className="h-7 px-2 text-xs bg-emerald-500/80 hover:bg-emerald-500 text-white"
+                    >
+                      Mark as Published
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+            <ProjectManager
+              getSnapshot={getProjectSnapshot}
+              onLoad={applyProjectSnapshot}
+              defaultName={getThumbnailTitle(template.definition.fileName, textValues)}
+              onCurrentProjectChange={setCurrentProjectId}
+            />
+            <div className="flex space-x-4">
+              <Link href="/batch" className="text-sm text-indigo-300 hover:text-indigo-200">
+                Generate a whole event from a match list →
+              </Link>
+              <Link href="/decks" className="text-sm text-indigo-300 hover:text-indigo-200">
+                Manage decks →
+              </Link>
+              <Link href="/history" className="text-sm text-indigo-300 hover:text-indigo-200">
+                Card history →
+              </Link>
             </div>
-            <Button onClick={handleDownload} className='w-full bg-gradient-to-r from-pink-400 via-purple-400 to-orange-400 text-indigo-700 hover:text-indigo-900 hover:from-pink-500 hover:via-purple-500 hover:to-orange-500 text-lg font-semibold shadow-md hover:shadow-lg transition-all duration-150 transform hover:scale-105'>Download Thumbnail</Button>
           </div>
 
           {/* Right Column: Inputs - Centered */}
@@ -501,61 +906,76 @@ export default function HomePage() {
                 <DeckAutocompleteCombobox
                   value={rightDeckName}
                   onValueChange={setRightDeckName}
+                  onSelect={(deckName) => void applyDeckProfile('right', deckName)}
                   placeholder="Enter Right Deck Name..."
-                  disabled={thumbnailType === "Stream"}
+                  disabled={!templateBindings.has('rightDeckName')}
+                />
+                <DecklistImport
+                  deckName={rightDeckName}
+                  slots={artSlots.filter((artSlot) => artSlot.side === 'right')}
+                  isSlotFilled={(slot) => !!getCardState(slot).name}
+                  onSelectCard={handleCardSelection}
                 />
               </div>
-              {renderCardInput('topRight', 'Top Right Card', 'Search Top Right Card...')}
-              {renderCardInput('bottomRight', 'Bottom Right Card', 'Search Bottom Right Card...')}
+              {artSlots.filter((artSlot) => artSlot.side === 'right').map(renderCardInput)}
               {renderSwapButton('right')}
+              {renderSaveKeyCardsButton('right')}
 
               <div className="space-y-2 border-t border-indigo-400/30 pt-4 mt-4">
-                <Label className='text-indigo-200'>Thumbnail Type</Label>
-                <RadioGroup
-                  defaultValue="Video"
-                  onValueChange={(value) => setThumbnailType(value as ThumbnailType)}
-                  className="flex space-x-2"
+                <Label htmlFor="template-selection" className='text-indigo-200'>Template</Label>
+                <select
+                  id="template-selection"
+                  value={template.key}
+                  onChange={(e) => handleTemplateChange(e.target.value)}
+                  className="w-full bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-3 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
                 >
-                  <div className="flex items-center space-x-1">
-                    <RadioGroupItem value="Video" id="video-type" />
-                    <Label htmlFor="video-type" className='text-indigo-300 font-normal'>Video</Label>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <RadioGroupItem value="Stream" id="stream-type" />
-                    <Label htmlFor="stream-type" className='text-indigo-300 font-normal'>Stream</Label>
-                  </div>
-                </RadioGroup>
+                  {templates.map((option) => (
+                    <option key={option.key} value={option.key}>{option.name}</option>
+                  ))}
+                </select>
               </div>
 
-              {thumbnailType === "Stream" && (
+              {(templateBindings.has('streamDate') || templateBindings.has('eventName') || templateBindings.has('bottomText')) && (
                 <div className="space-y-2">
-                  <Label htmlFor="stream-date" className='text-indigo-200'>Stream Date</Label>
-                  <Input
-                    id="stream-date"
-                    type="text"
-                    value={streamDate}
-                    onChange={(e) => setStreamDate(e.target.value)}
-                    placeholder="MM/DD/YY"
-                    className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
-                  />
-                  <Label htmlFor="event-name" className='text-indigo-200 mt-2'>Event Name</Label>
-                  <Input
-                    id="event-name"
-                    type="text"
-                    value={eventName}
-                    onChange={(e) => setEventName(e.target.value)}
-                    placeholder="MODERN FNM"
-                    className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
-                  />
-                  <Label htmlFor="bottom-text" className='text-indigo-200 mt-2'>Bottom Text</Label>
-                  <Input
-                    id="bottom-text"
-                    type="text"
-                    value={bottomText}
-                    onChange={(e) => setBottomText(e.target.value)}
-                    placeholder="LIVE!"
-                    className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
-                  />
+                  {templateBindings.has('streamDate') && (
+                    <>
+                      <Label htmlFor="stream-date" className='text-indigo-200'>Stream Date</Label>
+                      <Input
+                        id="stream-date"
+                        type="text"
+                        value={streamDate}
+                        onChange={(e) => setStreamDate(e.target.value)}
+                        placeholder="MM/DD/YY"
+                        className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
+                      />
+                    </>
+                  )}
+                  {templateBindings.has('eventName') && (
+                    <>
+                      <Label htmlFor="event-name" className='text-indigo-200 mt-2'>Event Name</Label>
+                      <Input
+                        id="event-name"
+                        type="text"
+                        value={eventName}
+                        onChange={(e) => setEventName(e.target.value)}
+                        placeholder="MODERN FNM"
+                        className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
+                      />
+                    </>
+                  )}
+                  {templateBindings.has('bottomText') && (
+                    <>
+                      <Label htmlFor="bottom-text" className='text-indigo-200 mt-2'>Bottom Text</Label>
+                      <Input
+                        id="bottom-text"
+                        type="text"
+                        value={bottomText}
+                        onChange={(e) => setBottomText(e.target.value)}
+                        placeholder="LIVE!"
+                        className="bg-slate-700/50 border-indigo-500/50 text-sm h-8"
+                      />
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -580,24 +1000,35 @@ export default function HomePage() {
             <DialogDescription className="text-slate-400">
               Click an image to select it for the thumbnail.
               {(cardArtsQuery.isLoading || artUsageQuery.isLoading) && " Loading available arts..."}
+              {!cardArtsQuery.isLoading && cardArtsQuery.isFetching && " Loading more arts..."}
               {(cardArtsQuery.isError || artUsageQuery.isError) && " Error loading arts."}
             </DialogDescription>
           </DialogHeader>
+          <ArtFilterBar arts={artUrlsForSelection} filters={artFilters} onChange={setArtFilters} />
           <div className={`flex flex-wrap overflow-y-auto p-1 max-h-[50vh]`}> 
-            {artUrlsForSelection.map((art) => (
+            {visibleArts.map((art) => (
               <button
                 key={art.artUrl} 
                 onClick={() => handleArtSelectionFromDialog(art)}
-                className="w-36 h-auto flex-grow-0 flex-shrink-0 relative rounded-md border-2 border-slate-700 hover:border-indigo-500 focus:border-indigo-500 focus:outline-none group transition-all duration-150 transform hover:scale-105 shadow-md hover:shadow-lg"
+                className={`w-36 h-auto flex-grow-0 flex-shrink-0 relative rounded-md border-2 ${art.artUrl === recommendedArtUrl ? 'border-emerald-400' : 'border-slate-700'} hover:border-indigo-500 focus:border-indigo-500 focus:outline-none group transition-all duration-150 transform hover:scale-105 shadow-md hover:shadow-lg`}
               >
                 <Image width={512} height={512} src={art.artUrl} alt={`Art for ${selectedCardNameForArt} (Set: ${art.set})`} className="w-full h-full object-cover rounded-sm" /> 
                 <div className="absolute bottom-0 left-0 right-0 bg-black/80 px-1.5 py-0.5 text-center text-xs font-medium text-slate-100 opacity-0 transition-opacity group-hover:opacity-100 duration-150">
-                  Set: {art.set}
+                  Set: {art.set}{art.collectorNumber && ` #${art.collectorNumber}`}
+                  {art.releasedAt && <div>Released: {format(parseISO(art.releasedAt), 'P')}</div>}
                   {art.artist && <div className="truncate">Artist: {art.artist}</div>}
+                  {getArtTreatments(art).length > 0 && (
+                    <div className="truncate">{getArtTreatments(art).map((treatment) => ART_TREATMENT_LABELS[treatment]).join(', ')}</div>
+                  )}
                 </div>
                 {artUsageMap[art.artUrl] && (
                   <div className="absolute top-0 left-0 right-0 bg-red-700/90 px-1.5 py-0.5 text-center text-xs font-medium text-white opacity-0 transition-opacity group-hover:opacity-100 duration-150">
-                    Last Used: {format(new Date(artUsageMap[art.artUrl]!), 'P')}
+                    {describeArtUsage(art.artUrl)}
+                  </div>
+                )}
+                {art.artUrl === recommendedArtUrl && (
+                  <div className="absolute top-1 right-1 rounded-sm bg-emerald-500/90 px-1.5 py-0.5 text-[10px] font-semibold text-white shadow group-hover:opacity-0 transition-opacity duration-150">
+                    Recommended
                   </div>
                 )}
               </button>
@@ -607,6 +1038,11 @@ export default function HomePage() {
                 No art versions found for this card.
               </p>
             )}
+            {artUrlsForSelection.length > 0 && visibleArts.length === 0 && (
+              <p className="col-span-full py-4 text-center text-slate-400">
+                No arts match these filters.
+              </p>
+            )}
           </div>
           <DialogFooter className='justify-self-end place-self-end'>
             <DialogClose asChild>
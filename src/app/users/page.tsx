@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Label } from '~/components/ui/label';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { api } from '~/trpc/react';
+import { USER_ROLES, USER_ROLE_LABELS, type UserRole } from '~/lib/auth';
+
+// "Guest Channel" -> "guest-channel"
+const toWorkspaceKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const selectClassName = 'bg-slate-700/50 border border-indigo-500/50 text-slate-300 text-sm h-8 px-2 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+export default function UsersPage() {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('editor');
+  const [workspaceName, setWorkspaceName] = useState('');
+
+  const { data: me } = api.auth.me.useQuery();
+  const isAdmin = me?.role === 'admin';
+  const { data: users } = api.auth.listUsers.useQuery(undefined, { enabled: isAdmin });
+  const { data: workspaces } = api.workspace.list.useQuery(undefined, { enabled: isAdmin });
+
+  const utils = api.useUtils();
+  const createMutation = api.auth.createUser.useMutation({
+    onSuccess: async () => {
+      setUsername('');
+      setPassword('');
+      await utils.auth.listUsers.invalidate();
+    },
+  });
+  const updateRoleMutation = api.auth.updateRole.useMutation({ onSuccess: () => utils.auth.listUsers.invalidate() });
+  const deleteMutation = api.auth.deleteUser.useMutation({ onSuccess: () => utils.auth.listUsers.invalidate() });
+  const error = createMutation.error ?? updateRoleMutation.error ?? deleteMutation.error;
+
+  const saveWorkspaceMutation = api.workspace.save.useMutation({
+    onSuccess: async () => {
+      setWorkspaceName('');
+      await utils.workspace.list.invalidate();
+    },
+  });
+  const deleteWorkspaceMutation = api.workspace.delete.useMutation({ onSuccess: () => utils.workspace.list.invalidate() });
+  const workspaceError = saveWorkspaceMutation.error ?? deleteWorkspaceMutation.error;
+  const workspaceKey = toWorkspaceKey(workspaceName);
+  const isWorkspaceKeyTaken = workspaces?.some((workspace) => workspace.key === workspaceKey) ?? false;
+
+  return (
+    <main className="flex flex-col items-center min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-indigo-900 text-slate-50 p-4 space-y-6">
+      <h1 className="text-center text-4xl font-extrabold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-purple-400 via-pink-400 to-orange-400 pt-4">Users & Workspaces</h1>
+      <Link href="/" className="text-sm text-indigo-300 hover:text-indigo-200">← Back to editor</Link>
+
+      {!isAdmin ? (
+        <p className="text-sm text-slate-400">Only admins can manage accounts and workspaces.</p>
+      ) : (
+        <>
+          <div className="w-full max-w-3xl space-y-4 bg-slate-800/50 p-4 rounded-xl border-2 border-indigo-400/30">
+            <ul className="space-y-2">
+              {users?.map((user) => (
+                <li key={user.id} className="flex items-center justify-between rounded-md bg-slate-700/40 px-3 py-2 text-sm">
+                  <span>
+                    {user.username}
+                    <span className="ml-2 text-xs text-slate-400">since {format(user.createdAt, 'MMM d, yyyy')}</span>
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={user.role}
+                      onChange={(e) => updateRoleMutation.mutate({ id: user.id, role: e.target.value as UserRole })}
+                      disabled={user.id === me?.id || updateRoleMutation.isPending}
+                      className={selectClassName}
+                      aria-label={`Role for ${user.username}`}
+                    >
+                      {USER_ROLES.map((option) => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate({ id: user.id })}
+                      disabled={user.id === me?.id || deleteMutation.isPending}
+                      className="h-7 px-2 text-xs text-red-300 hover:text-red-200"
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="space-y-2 border-t border-indigo-400/30 pt-4">
+              <Label htmlFor="new-username" className='text-indigo-200'>Add an account</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="new-username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  placeholder="Username"
+                  className="h-8 bg-slate-700/50 border-indigo-500/50 text-slate-300 text-sm"
+                />
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password (8+ characters)"
+                  autoComplete="new-password"
+                  className="h-8 bg-slate-700/50 border-indigo-500/50 text-slate-300 text-sm"
+                />
+                <select value={role} onChange={(e) => setRole(e.target.value as UserRole)} className={selectClassName} aria-label="Role">
+                  {USER_ROLES.map((option) => <option key={option} value={option}>{option}</option>)}
+                </select>
+                <Button
+                  size="sm"
+                  onClick={() => createMutation.mutate({ username: username.trim(), password, role })}
+                  disabled={!username.trim() || password.length < 8 || createMutation.isPending}
+                >
+                  Add
+                </Button>
+              </div>
+              <ul className="text-xs text-slate-400">
+                {USER_ROLES.map((option) => <li key={option}>{USER_ROLE_LABELS[option]}</li>)}
+              </ul>
+            </div>
+            {error && <p className="text-xs text-red-400">{error.message}</p>}
+          </div>
+
+          <div className="w-full max-w-3xl space-y-4 bg-slate-800/50 p-4 rounded-xl border-2 border-indigo-400/30">
+            <div>
+              <h2 className="text-lg font-semibold text-indigo-200">Workspaces</h2>
+              <p className="text-xs text-slate-400">
+                Each workspace has its own decks, art usage, logos, themes, projects and thumbnails. Templates and fonts are shared.
+              </p>
+            </div>
+            <ul className="space-y-2">
+              {workspaces?.map((workspace) => (
+                <li key={workspace.key} className="flex items-center justify-between rounded-md bg-slate-700/40 px-3 py-2 text-sm">
+                  <span>
+                    {workspace.name}
+                    <span className="ml-2 text-xs text-slate-400">{workspace.builtIn ? 'built-in' : workspace.key}</span>
+                  </span>
+                  {!workspace.builtIn && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteWorkspaceMutation.mutate({ key: workspace.key })}
+                      disabled={deleteWorkspaceMutation.isPending}
+                      className="h-7 px-2 text-xs text-red-300 hover:text-red-200"
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="flex space-x-2 border-t border-indigo-400/30 pt-4">
+              <Input
+                value={workspaceName}
+                onChange={(e) => setWorkspaceName(e.target.value)}
+                placeholder="Workspace name, e.g. Guest Channel"
+                className="h-8 bg-slate-700/50 border-indigo-500/50 text-slate-300 text-sm"
+                aria-label="New workspace name"
+              />
+              <Button
+                size="sm"
+                onClick={() => saveWorkspaceMutation.mutate({ key: workspaceKey, name: workspaceName.trim() })}
+                disabled={!workspaceKey || isWorkspaceKeyTaken || saveWorkspaceMutation.isPending}
+              >
+                Add
+              </Button>
+            </div>
+            {workspaceError && <p className="text-xs text-red-400">{workspaceError.message}</p>}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
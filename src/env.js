@@ -11,6 +11,19 @@ export const env = createEnv({
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
+    // Scryfall response cache: how long entries are fresh, and how much longer they may still be
+    // served while a refresh runs in the background
+    SCRYFALL_CACHE_SEARCH_TTL_SECONDS: z.coerce.number().int().nonnegative().default(60 * 60 * 24),
+    SCRYFALL_CACHE_AUTOCOMPLETE_TTL_SECONDS: z.coerce.number().int().nonnegative().default(60 * 60 * 6),
+    SCRYFALL_CACHE_STALE_SECONDS: z.coerce.number().int().nonnegative().default(60 * 60 * 24 * 7),
+    // Where card search answers from when Scryfall is down: "fallback" uses the imported bulk data
+    // snapshot only when a request fails, "primary" never calls Scryfall for it, "off" never uses it
+    SCRYFALL_OFFLINE_MODE: z.enum(["off", "fallback", "primary"]).default("fallback"),
+    // On-disk cache for proxied Scryfall images, evicted least recently used first past the limit
+    IMAGE_CACHE_DIR: z.string().default(".cache/images"),
+    IMAGE_CACHE_MAX_BYTES: z.coerce.number().int().positive().default(500 * 1024 * 1024),
+    // Uploaded fonts are written here for the server renderer, which can only load fonts from files
+    FONT_DIR: z.string().default(".cache/fonts"),
   },
 
   /**
@@ -29,6 +42,13 @@ export const env = createEnv({
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
+    SCRYFALL_CACHE_SEARCH_TTL_SECONDS: process.env.SCRYFALL_CACHE_SEARCH_TTL_SECONDS,
+    SCRYFALL_CACHE_AUTOCOMPLETE_TTL_SECONDS: process.env.SCRYFALL_CACHE_AUTOCOMPLETE_TTL_SECONDS,
+    SCRYFALL_CACHE_STALE_SECONDS: process.env.SCRYFALL_CACHE_STALE_SECONDS,
+    SCRYFALL_OFFLINE_MODE: process.env.SCRYFALL_OFFLINE_MODE,
+    IMAGE_CACHE_DIR: process.env.IMAGE_CACHE_DIR,
+    IMAGE_CACHE_MAX_BYTES: process.env.IMAGE_CACHE_MAX_BYTES,
+    FONT_DIR: process.env.FONT_DIR,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
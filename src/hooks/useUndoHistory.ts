@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const HISTORY_LIMIT = 100;
+// Changes closer together than this undo as one step, so typing a name, dragging a crop or
+// scrolling a zoom doesn't take dozens of presses to undo
+const COALESCE_MS = 500;
+
+const shallowEqual = <T extends object>(a: T, b: T) =>
+  Object.keys(a).length === Object.keys(b).length &&
+  (Object.keys(a) as (keyof T)[]).every((key) => Object.is(a[key], b[key]));
+
+interface History<T> {
+  past: T[];
+  future: T[];
+}
+
+/**
+ * Undo/redo over snapshots of `state`, which should be memoized. Every change to it is recorded as
+ * it happens, wherever it came from, so new editor state only has to be added to the snapshot.
+ * `apply` restores a snapshot; the change it causes is recognized and not recorded again.
+ */
+export function useUndoHistory<T extends object>(state: T, apply: (snapshot: T) => void) {
+  const [history, setHistory] = useState<History<T>>({ past: [], future: [] });
+  const current = useRef(state);
+  const lastChangeAt = useRef(0);
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+
+  useEffect(() => {
+    if (shallowEqual(state, current.current)) return;
+
+    const previous = current.current;
+    const now = Date.now();
+    const coalesce = now - lastChangeAt.current < COALESCE_MS;
+    current.current = state;
+    lastChangeAt.current = now;
+    setHistory(({ past }) => ({
+      past: coalesce && past.length > 0 ? past : [...past, previous].slice(-HISTORY_LIMIT),
+      future: [],
+    }));
+  }, [state]);
+
+  const restore = useCallback((snapshot: T) => {
+    current.current = snapshot;
+    lastChangeAt.current = 0;
+    applyRef.current(snapshot);
+  }, []);
+
+  const undo = useCallback(() => {
+    const snapshot = history.past.at(-1);
+    if (!snapshot) return;
+    setHistory({ past: history.past.slice(0, -1), future: [current.current, ...history.future] });
+    restore(snapshot);
+  }, [history, restore]);
+
+  const redo = useCallback(() => {
+    const [snapshot, ...future] = history.future;
+    if (!snapshot) return;
+    setHistory({ past: [...history.past, current.current], future });
+    restore(snapshot);
+  }, [history, restore]);
+
+  return { undo, redo, canUndo: history.past.length > 0, canRedo: history.future.length > 0 };
+}
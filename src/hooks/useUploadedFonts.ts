@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+
+import { type StoredFont, getFontUrl } from '~/lib/fonts';
+import { api } from '~/trpc/react';
+
+/**
+ * Loads every uploaded font into the page with the FontFace API. `isReady` stays false until they
+ * have all loaded (or failed), so text isn't measured or exported with a fallback font, and
+ * `fontsVersion` changes each time a new set finishes loading.
+ */
+export function useUploadedFonts() {
+  const fontsQuery = api.font.list.useQuery(undefined, { staleTime: 1000 * 60 * 10 });
+  const fonts = fontsQuery.data;
+  const [loadedFonts, setLoadedFonts] = useState<StoredFont[] | null>(null);
+  const [fontsVersion, setFontsVersion] = useState(0);
+
+  useEffect(() => {
+    if (!fonts) return;
+    let cancelled = false;
+    const faces = fonts.map(
+      (font) => new FontFace(font.family, `url(${getFontUrl(font)})`, { weight: font.weight, style: font.style })
+    );
+
+    void Promise.allSettled(
+      faces.map(async (face) => {
+        document.fonts.add(await face.load());
+      })
+    ).then((results) => {
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') console.error(`Failed to load font "${fonts[index]?.family}":`, result.reason);
+      });
+      if (cancelled) return;
+      setLoadedFonts(fonts);
+      setFontsVersion((version) => version + 1);
+    });
+
+    return () => {
+      cancelled = true;
+      faces.forEach((face) => document.fonts.delete(face));
+    };
+  }, [fonts]);
+
+  return {
+    fonts: fonts ?? [],
+    isReady: fontsQuery.isError || (!!fonts && (fonts.length === 0 || loadedFonts === fonts)),
+    fontsVersion,
+  };
+}
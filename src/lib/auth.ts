@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+// Each role can do everything the ones before it can
+export const USER_ROLES = ['viewer', 'editor', 'admin'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer: browse and download',
+  editor: 'Editor: also save, publish and change shared data',
+  admin: 'Admin: also manage accounts and workspaces',
+};
+
+export const hasRole = (role: UserRole, required: UserRole) => USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+
+export const usernameSchema = z.string().trim().min(2).max(50).regex(/^[\w.-]+$/, 'Usernames may only contain letters, digits, dots, dashes and underscores');
+export const passwordSchema = z.string().min(8, 'Passwords must be at least 8 characters').max(200);
+
+export const credentialsSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+});
+
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export const SESSION_COOKIE = 'ochm_session';
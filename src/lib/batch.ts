@@ -0,0 +1,156 @@
+import { z } from 'zod';
+
+const slotIdSchema = z.string().regex(/^\w+$/);
+
+const batchCardSchema = z.object({
+  name: z.string().trim().min(1),
+  set: z.string().trim().toUpperCase().optional(), // Printing set code, e.g. "MH3"
+});
+
+export const batchMatchSchema = z.object({
+  leftDeckName: z.string().trim().max(100).default(''),
+  rightDeckName: z.string().trim().max(100).default(''),
+  // Keyed by the template's slot ids; slots without a card are left empty
+  cards: z.record(slotIdSchema, batchCardSchema),
+});
+
+export const batchRequestSchema = z.object({
+  templateKey: z.string().optional(),
+  themeKey: z.string().optional(),
+  streamDate: z.string().max(100).optional(),
+  eventName: z.string().max(100).optional(),
+  bottomText: z.string().max(100).optional(),
+  matches: z.array(batchMatchSchema).min(1).max(50),
+  publish: z.boolean().default(false), // Otherwise every thumbnail is saved as a draft to publish later
+});
+
+export type BatchMatch = z.infer<typeof batchMatchSchema>;
+export type BatchRequest = z.infer<typeof batchRequestSchema>;
+
+export interface ParsedMatchList {
+  matches: BatchMatch[];
+  errors: string[];
+}
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, newlines and doubled quotes
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+const DECK_NAME_COLUMNS = new Set(['leftDeckName', 'rightDeckName']);
+
+/**
+ * Turns a flat row into a match. Besides `leftDeckName` and `rightDeckName`, every column names one
+ * of the template's slots holding a card name, and `<slot>Set` columns pin that card to a printing.
+ */
+const rowToMatch = (row: Record<string, unknown>) => {
+  const cards: Record<string, { name: string; set?: string }> = {};
+  Object.entries(row).forEach(([column, value]) => {
+    if (DECK_NAME_COLUMNS.has(column) || column.endsWith('Set')) return;
+    if (typeof value !== 'string' || value.trim() === '') return;
+    const set = row[`${column}Set`];
+    cards[column] = { name: value, set: typeof set === 'string' && set.trim() !== '' ? set : undefined };
+  });
+  return { leftDeckName: row.leftDeckName, rightDeckName: row.rightDeckName, cards };
+};
+
+// Columns that aren't a deck name, one of the slots or a slot's `<slot>Set`, e.g. a misspelled slot
+const getUnknownColumns = (row: Record<string, unknown>, slots: Set<string>) =>
+  Object.keys(row).filter((column) =>
+    !DECK_NAME_COLUMNS.has(column) &&
+    !slots.has(column) &&
+    !(column.endsWith('Set') && slots.has(column.slice(0, -'Set'.length)))
+  );
+
+const toParsedMatchList = (rows: unknown[], firstRowNumber: number, slots: Set<string>): ParsedMatchList => {
+  const matches: BatchMatch[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + firstRowNumber;
+    if (typeof row !== 'object' || row === null) {
+      errors.push(`Row ${rowNumber}: expected an object`);
+      return;
+    }
+    const unknownColumns = getUnknownColumns(row as Record<string, unknown>, slots);
+    if (unknownColumns.length > 0) {
+      errors.push(`Row ${rowNumber}: unknown ${unknownColumns.length === 1 ? 'column' : 'columns'} ${unknownColumns.join(', ')}`);
+      return;
+    }
+    const parsed = batchMatchSchema.safeParse(rowToMatch(row as Record<string, unknown>));
+    if (!parsed.success) {
+      errors.push(`Row ${rowNumber}: ${parsed.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+    } else if (Object.keys(parsed.data.cards).length === 0) {
+      errors.push(`Row ${rowNumber}: no cards`);
+    } else {
+      matches.push(parsed.data);
+    }
+  });
+
+  return { matches, errors };
+};
+
+/**
+ * Parses an uploaded match list. JSON files hold an array of row objects; CSV files have a header
+ * row with the same column names, e.g.
+ * `leftDeckName,rightDeckName,topLeft,bottomLeft,topRight,bottomRight,topLeftSet`. Rows with a
+ * column that isn't one of the template's `slots` are reported rather than rendered without it.
+ */
+export const parseMatchList = (text: string, fileName: string, slots: string[]): ParsedMatchList => {
+  const slotSet = new Set(slots);
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[\[{]/.test(text);
+
+  if (isJson) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { matches: [], errors: ['File is not valid JSON'] };
+    }
+    if (!Array.isArray(data)) return { matches: [], errors: ['JSON match list must be an array of rows'] };
+    return toParsedMatchList(data, 1, slotSet);
+  }
+
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return { matches: [], errors: ['CSV file is empty'] };
+  const columns = header.map((column) => column.trim());
+  return toParsedMatchList(
+    rows.map((cells) => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))),
+    2, // Row 1 is the header
+    slotSet
+  );
+};
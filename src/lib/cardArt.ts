@@ -0,0 +1,120 @@
+import { z } from 'zod';
+
+// One art option for a card, as returned by `scryfall.getCardArts`. The printing details are
+// optional because results cached before they were collected don't have them.
+export const cardArtSchema = z.object({
+  artUrl: z.string().url(),
+  set: z.string(),
+  scryfallPrintId: z.string(),
+  artist: z.string().optional(),
+  releasedAt: z.string().optional(), // YYYY-MM-DD
+  collectorNumber: z.string().optional(),
+  frameEffects: z.array(z.string()).optional(),
+  borderColor: z.string().optional(),
+  fullArt: z.boolean().optional(),
+  imageStatus: z.string().optional(), // Scryfall's scan quality, e.g. "highres_scan" or "lowres"
+  score: z.number().optional(), // Recommendation from 0 to 1 when the list has been ranked
+});
+
+export type CardArt = z.infer<typeof cardArtSchema>;
+
+export type ArtTreatment = 'showcase' | 'borderless' | 'extendedArt' | 'fullArt';
+
+export const ART_TREATMENT_LABELS: Record<ArtTreatment, string> = {
+  showcase: 'Showcase',
+  borderless: 'Borderless',
+  extendedArt: 'Extended Art',
+  fullArt: 'Full Art',
+};
+
+export const getArtTreatments = (art: CardArt): ArtTreatment[] => {
+  const treatments: ArtTreatment[] = [];
+  if (art.frameEffects?.includes('showcase')) treatments.push('showcase');
+  if (art.borderColor === 'borderless') treatments.push('borderless');
+  if (art.frameEffects?.includes('extendedart')) treatments.push('extendedArt');
+  if (art.fullArt) treatments.push('fullArt');
+  return treatments;
+};
+
+export type ArtSortOrder = 'recommended' | 'default' | 'newest' | 'oldest' | 'set' | 'artist' | 'leastRecentlyUsed';
+
+export const ART_SORT_LABELS: Record<ArtSortOrder, string> = {
+  recommended: 'Recommended',
+  default: 'Scryfall order',
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  set: 'Set',
+  artist: 'Artist',
+  leastRecentlyUsed: 'Least recently used',
+};
+
+export interface ArtFilters {
+  set: string; // '' for any
+  artist: string; // '' for any
+  treatment: ArtTreatment | 'regular' | ''; // 'regular' is anything without a special treatment
+  usage: 'all' | 'unused' | 'used';
+  sort: ArtSortOrder;
+  allWorkspaces: boolean; // Count uses from every workspace, not just the current one
+}
+
+export const DEFAULT_ART_FILTERS: ArtFilters = {
+  set: '',
+  artist: '',
+  treatment: '',
+  usage: 'all',
+  sort: 'recommended',
+  allWorkspaces: false,
+};
+
+// Sorts missing values last whichever way the list is ordered
+const compareOptional = (a: string | undefined, b: string | undefined, direction = 1) => {
+  if (a === b) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return a.localeCompare(b, undefined, { numeric: true }) * direction;
+};
+
+/**
+ * Applies the art dialog's filters and sort order. `lastUsedAt` maps art URLs to when they last
+ * went into a thumbnail; arts missing from it have never been used.
+ */
+export const filterAndSortArts = <T extends CardArt>(
+  arts: T[],
+  filters: ArtFilters,
+  lastUsedAt: Record<string, Date | null>
+): T[] => {
+  const getLastUsed = (art: CardArt) => {
+    const date = lastUsedAt[art.artUrl];
+    return date ? new Date(date).getTime() : null;
+  };
+
+  const filtered = arts.filter((art) => {
+    if (filters.set && art.set !== filters.set) return false;
+    if (filters.artist && art.artist !== filters.artist) return false;
+    if (filters.treatment) {
+      const treatments = getArtTreatments(art);
+      if (filters.treatment === 'regular' ? treatments.length > 0 : !treatments.includes(filters.treatment)) return false;
+    }
+    if (filters.usage !== 'all' && (getLastUsed(art) === null) !== (filters.usage === 'unused')) return false;
+    return true;
+  });
+
+  switch (filters.sort) {
+    case 'recommended':
+      // Unranked arts, e.g. pages still streaming in, stay in order after the ranked ones
+      return filtered.sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
+    case 'newest':
+      return filtered.sort((a, b) => compareOptional(a.releasedAt, b.releasedAt, -1));
+    case 'oldest':
+      return filtered.sort((a, b) => compareOptional(a.releasedAt, b.releasedAt));
+    case 'set':
+      return filtered.sort((a, b) => a.set.localeCompare(b.set) || compareOptional(a.collectorNumber, b.collectorNumber));
+    case 'artist':
+      return filtered.sort((a, b) => compareOptional(a.artist, b.artist));
+    case 'leastRecentlyUsed':
+      // Never used first, then oldest use first
+      return filtered.sort((a, b) => (getLastUsed(a) ?? 0) - (getLastUsed(b) ?? 0));
+    case 'default':
+      return filtered;
+  }
+};
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const DECK_COLORS = ['W', 'U', 'B', 'R', 'G'] as const;
+export type DeckColor = (typeof DECK_COLORS)[number];
+
+export const deckNameSchema = z.string().trim().min(1).max(100);
+
+export const deckKeyCardSchema = z.object({
+  cardName: z.string().trim().min(1).max(200),
+  // Preferred printing; without one the recommended art is picked
+  artUrl: z.string().url().nullable().default(null),
+  scryfallCardId: z.string().nullable().default(null),
+});
+
+// Stored as JSON on `Deck.keyCards`, in the order they fill a side's slots
+export const deckKeyCardsSchema = z.array(deckKeyCardSchema).max(8);
+
+export type DeckKeyCard = z.infer<typeof deckKeyCardSchema>;
+
+/**
+ * A deck's archetype profile: the cards that represent it on a thumbnail, its colors, and other
+ * names it goes by (e.g. "RW Energy" for "Boros Energy").
+ */
+export const deckProfileSchema = z.object({
+  keyCards: deckKeyCardsSchema.default([]),
+  colors: z.array(z.enum(DECK_COLORS)).default([]),
+  aliases: z.array(deckNameSchema).max(20).default([]),
+});
+
+export type DeckProfile = z.infer<typeof deckProfileSchema>;
+
+// Keeps colors unique and in WUBRG order
+export const normalizeColors = (colors: DeckColor[]) => DECK_COLORS.filter((color) => colors.includes(color));
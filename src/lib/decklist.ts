@@ -0,0 +1,126 @@
+import { z } from 'zod';
+
+export const decklistEntrySchema = z.object({
+  quantity: z.number().int().positive(),
+  name: z.string().trim().min(1).max(200),
+  set: z.string().optional(), // Printing set code when the export includes one
+  sideboard: z.boolean().default(false),
+});
+
+// Stored as JSON on `Deck.decklist`
+export const decklistSchema = z.array(decklistEntrySchema).max(250);
+
+export type DecklistEntry = z.infer<typeof decklistEntrySchema>;
+
+const BASIC_LANDS = new Set(['plains', 'island', 'swamp', 'mountain', 'forest', 'wastes']);
+
+// Section headers used by Arena, Moxfield and MTGGoldfish text exports
+const MAINBOARD_HEADERS = /^(deck|main(board)?|commander|companion)\s*:?$/i;
+const SIDEBOARD_HEADERS = /^(sideboard|side|sb)\s*:?$/i;
+const IGNORED_HEADERS = /^(about|name\s.*|maybeboard\s*:?|tokens\s*:?)$/i;
+
+// "4 Lightning Bolt", "4x Lightning Bolt (M10) 146", "SB: 2 Blood Moon"
+const CARD_LINE = /^(SB:\s*)?(\d+)x?\s+(.+?)(?:\s+\(([A-Za-z0-9]+)\)(?:\s+\S+)?)?(?:\s+\*[A-Z]\*)?$/;
+
+const parseTextDecklist = (text: string): DecklistEntry[] => {
+  const entries: DecklistEntry[] = [];
+  let sideboard = false;
+  let sawCards = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      // MTGO lists separate the sideboard with a blank line instead of a header
+      if (sawCards) sideboard = true;
+      continue;
+    }
+    if (line.startsWith('//') || line.startsWith('#') || IGNORED_HEADERS.test(line)) continue;
+    if (MAINBOARD_HEADERS.test(line)) {
+      sideboard = false;
+      sawCards = false;
+      continue;
+    }
+    if (SIDEBOARD_HEADERS.test(line)) {
+      sideboard = true;
+      continue;
+    }
+
+    const match = CARD_LINE.exec(line);
+    if (!match) continue;
+    const [, sideboardPrefix, quantity, name, set] = match;
+    entries.push({
+      quantity: Number(quantity),
+      name: name!.trim(),
+      set: set?.toUpperCase(),
+      sideboard: sideboard || !!sideboardPrefix,
+    });
+    sawCards = true;
+  }
+
+  return entries;
+};
+
+// MTGO .dek files: <Cards Quantity="4" Sideboard="false" Name="Lightning Bolt" />
+const parseDekDecklist = (text: string): DecklistEntry[] =>
+  [...text.matchAll(/<Cards\b[^>]*>/g)].flatMap(([tag]) => {
+    const attribute = (name: string) => new RegExp(`${name}="([^"]*)"`).exec(tag)?.[1];
+    const quantity = Number(attribute('Quantity'));
+    const name = attribute('Name');
+    if (!name || !quantity) return [];
+    return [{ quantity, name: name.replace(/&amp;/g, '&'), sideboard: attribute('Sideboard') === 'true' }];
+  });
+
+// Moxfield CSV exports: "Count","Tradelist Count","Name","Edition",...
+const parseCsvDecklist = (text: string): DecklistEntry[] => {
+  const [header, ...rows] = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const splitRow = (row: string) =>
+    [...row.matchAll(/("([^"]*(?:""[^"]*)*)"|[^,]*)(,|$)/g)].map((match) => (match[2] ?? match[1] ?? '').replace(/""/g, '"'));
+  const columns = splitRow(header ?? '').map((column) => column.trim().toLowerCase());
+  const countIndex = columns.indexOf('count');
+  const nameIndex = columns.indexOf('name');
+  const setIndex = columns.indexOf('edition');
+  const boardIndex = columns.indexOf('board');
+  if (countIndex === -1 || nameIndex === -1) return [];
+
+  return rows.flatMap((row) => {
+    const cells = splitRow(row);
+    const quantity = Number(cells[countIndex]);
+    const name = cells[nameIndex]?.trim();
+    const set = setIndex === -1 ? '' : cells[setIndex]?.trim().toUpperCase() ?? '';
+    if (!name || !quantity) return [];
+    return [{
+      quantity,
+      name,
+      set: set !== '' ? set : undefined,
+      sideboard: boardIndex !== -1 && cells[boardIndex]?.trim().toLowerCase() === 'sideboard',
+    }];
+  });
+};
+
+/**
+ * Parses a pasted MTGO/Arena list or a Moxfield/MTGGoldfish export (.txt, .dek or .csv). Repeated
+ * cards are merged, and anything that isn't a card line is ignored.
+ */
+export const parseDecklist = (text: string, fileName = ''): DecklistEntry[] => {
+  const lowerName = fileName.toLowerCase();
+  const entries = lowerName.endsWith('.dek') || /<Deck\b/.test(text)
+    ? parseDekDecklist(text)
+    : lowerName.endsWith('.csv') || /^"?count"?,/i.test(text.trimStart())
+      ? parseCsvDecklist(text)
+      : parseTextDecklist(text);
+
+  const merged = new Map<string, DecklistEntry>();
+  entries.forEach((entry) => {
+    const key = `${entry.sideboard ? 'sb' : 'main'}:${entry.name.toLowerCase()}`;
+    const existing = merged.get(key);
+    if (existing) existing.quantity += entry.quantity;
+    else merged.set(key, { ...entry });
+  });
+  return [...merged.values()];
+};
+
+// Cards worth putting on a thumbnail: nonbasic mainboard cards, most copies first
+export const getSuggestedCards = (entries: DecklistEntry[]) =>
+  entries
+    .filter((entry) => !entry.sideboard && !BASIC_LANDS.has(entry.name.toLowerCase()))
+    .sort((a, b) => b.quantity - a.quantity);
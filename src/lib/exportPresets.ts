@@ -0,0 +1,52 @@
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+export const YOUTUBE_THUMBNAIL_MAX_BYTES = 2 * 1024 * 1024;
+
+export interface ExportPreset {
+  key: string;
+  name: string;
+  width: number;
+  height: number;
+  format: ExportFormat; // Default format, which can be changed before exporting
+  maxBytes?: number; // Default size limit
+}
+
+// Templates are re-laid out for presets that aren't 16:9 (see `fitTemplateToAspectRatio`)
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { key: 'original', name: 'Original (1280x720)', width: 1280, height: 720, format: 'png' },
+  { key: 'full-hd', name: 'Full HD (1920x1080)', width: 1920, height: 1080, format: 'png' },
+  { key: 'youtube', name: 'YouTube thumbnail (1920x1080, under 2MB)', width: 1920, height: 1080, format: 'jpeg', maxBytes: YOUTUBE_THUMBNAIL_MAX_BYTES },
+  { key: 'shorts', name: 'Shorts (1080x1920)', width: 1080, height: 1920, format: 'jpeg' },
+  { key: 'social', name: 'X / Discord post (1200x675)', width: 1200, height: 675, format: 'jpeg' },
+  { key: 'square', name: 'Instagram square (1080x1080)', width: 1080, height: 1080, format: 'jpeg' },
+];
+
+export const DEFAULT_EXPORT_PRESET_KEY = 'original';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number; // 0-1, ignored for PNG
+  maxBytes: number | null; // Lowers the quality as needed to stay under this size, JPEG and WebP only
+}
+
+// "BorosEnergyVsAmuletTitan" -> "BorosEnergyVsAmuletTitan-shorts.jpg"; the original preset keeps the plain name
+export const getPresetFileName = (title: string, preset: ExportPreset, format: ExportFormat) =>
+  `${title}${preset.key === DEFAULT_EXPORT_PRESET_KEY ? '' : `-${preset.key}`}.${EXPORT_FILE_EXTENSIONS[format]}`;
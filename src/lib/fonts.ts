@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+export const FONT_MAX_BYTES = 5 * 1024 * 1024;
+
+// Formats both the browser and node-canvas (FreeType) can load
+export const FONT_CONTENT_TYPES: Record<string, string> = {
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.woff': 'font/woff',
+};
+
+export const fontFaceSchema = z.object({
+  family: z.string().trim().min(1).max(100).regex(/^[\w -]+$/, 'Font names may only contain letters, digits, spaces and dashes'),
+  weight: z.enum(['normal', 'bold']).default('normal'),
+  style: z.enum(['normal', 'italic']).default('normal'),
+});
+
+export type FontFaceDescriptor = z.infer<typeof fontFaceSchema>;
+
+export interface StoredFont extends FontFaceDescriptor {
+  id: string;
+  fileName: string;
+  updatedAt: Date;
+}
+
+// Versioned by upload time so a replaced font is never served from the browser cache
+export const getFontUrl = (font: Pick<StoredFont, 'id' | 'updatedAt'>) =>
+  `/api/fonts/${font.id}?v=${new Date(font.updatedAt).getTime()}`;
+
+// CSS font stack for an uploaded family. Quoted, since names like "8bit Wonder" aren't valid unquoted.
+export const getFontStack = (family: string) => `"${family}", sans-serif`;
@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import { type TemplateRegion } from '~/lib/template';
+
+export const LOGO_MAX_BYTES = 5 * 1024 * 1024;
+
+// Formats both the browser and node-canvas can draw
+export const LOGO_CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+// Where the logo is pinned inside a template's logo box
+export const LOGO_ANCHORS = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+] as const;
+
+export type LogoAnchor = (typeof LOGO_ANCHORS)[number];
+
+const fractionSchema = z.number().min(0).max(1);
+
+/**
+ * How a logo sits in a template's logo box. Offsets are in template units and applied after
+ * anchoring; `targetHeight` is relative to the box height. The safe box is the part of the drawn
+ * logo (as fractions of it) that text is kept clear of, so transparent padding doesn't count.
+ */
+export const logoPlacementSchema = z.object({
+  anchor: z.enum(LOGO_ANCHORS).default('center'),
+  offsetX: z.number().min(-1000).max(1000).default(0),
+  offsetY: z.number().min(-1000).max(1000).default(0),
+  targetHeight: z.number().positive().max(3).default(1),
+  safeBox: z
+    .object({ x: fractionSchema, y: fractionSchema, width: fractionSchema, height: fractionSchema })
+    .default({ x: 0, y: 0, width: 1, height: 1 }),
+});
+
+export type LogoPlacement = z.infer<typeof logoPlacementSchema>;
+
+export const logoNameSchema = z.string().trim().min(1).max(100);
+
+export interface ThumbnailLogo {
+  key: string; // Built-in key, or the stored logo's id
+  name: string;
+  src: string;
+  imageWidth: number;
+  imageHeight: number;
+  placement: LogoPlacement;
+  builtIn: boolean;
+}
+
+export const DEFAULT_LOGO_KEY = 'default';
+
+export const BUILT_IN_LOGOS: ThumbnailLogo[] = [
+  {
+    key: 'default',
+    name: 'OCHM',
+    src: '/logo_512.png',
+    imageWidth: 512,
+    imageHeight: 512,
+    placement: logoPlacementSchema.parse({}),
+    builtIn: true,
+  },
+  {
+    key: 'ocho',
+    name: 'OCHO',
+    src: '/ocho_logo_512.png',
+    imageWidth: 512,
+    imageHeight: 512,
+    placement: logoPlacementSchema.parse({ offsetY: -21 }), // The OCHO artwork sits lower in its image
+    builtIn: true,
+  },
+];
+
+export const findLogo = (logos: ThumbnailLogo[], key: string): ThumbnailLogo =>
+  logos.find((logo) => logo.key === key) ??
+  BUILT_IN_LOGOS.find((logo) => logo.key === key) ??
+  BUILT_IN_LOGOS[0]!;
+
+// Versioned by upload time so a replaced logo is never served from the browser cache
+export const getLogoUrl = (logo: { id: string; updatedAt: Date }) =>
+  `/api/logos/${logo.id}?v=${new Date(logo.updatedAt).getTime()}`;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const getAnchorOffset = (anchor: string, start: string, end: string, space: number) => {
+  if (anchor.includes(start)) return 0;
+  if (anchor.includes(end)) return space;
+  return space / 2;
+};
+
+// Where the logo image is drawn for a template's logo box
+export const getLogoRect = (box: Rect, logo: ThumbnailLogo): Rect => {
+  const { anchor, offsetX, offsetY, targetHeight } = logo.placement;
+  const height = box.height * targetHeight;
+  const width = (logo.imageWidth / logo.imageHeight) * height;
+  return {
+    x: box.x + getAnchorOffset(anchor, 'left', 'right', box.width - width) + offsetX,
+    y: box.y + getAnchorOffset(anchor, 'top', 'bottom', box.height - height) + offsetY,
+    width,
+    height,
+  };
+};
+
+// Space kept between the logo's safe box and text beside it, matching the built-in templates
+const LOGO_TEXT_GAP = 20;
+
+/**
+ * Narrows text boxes beside a logo so they stay clear of its safe box. Text centered over the
+ * template's logo box (like the Stream template's date) is stacked with it on purpose and left alone.
+ */
+export const fitTextAroundLogo = (regions: TemplateRegion[], logo: ThumbnailLogo): TemplateRegion[] => {
+  const safeRects = regions.flatMap((region) => {
+    if (region.type !== 'logo') return [];
+    const rect = getLogoRect(region, logo);
+    const { safeBox } = logo.placement;
+    return [{
+      boxLeft: region.x,
+      boxRight: region.x + region.width,
+      left: rect.x + rect.width * safeBox.x - LOGO_TEXT_GAP,
+      right: rect.x + rect.width * (safeBox.x + safeBox.width) + LOGO_TEXT_GAP,
+      top: rect.y + rect.height * safeBox.y,
+      bottom: rect.y + rect.height * (safeBox.y + safeBox.height),
+    }];
+  });
+  if (safeRects.length === 0) return regions;
+
+  return regions.map((region) => {
+    if (region.type !== 'text') return region;
+    let { x, width } = region;
+    const top = region.y;
+    const bottom = region.y + (region.height ?? region.fontSize);
+
+    for (const safe of safeRects) {
+      const center = x + width / 2;
+      const overlaps = x < safe.right && x + width > safe.left && top < safe.bottom && bottom > safe.top;
+      if (!overlaps || (center >= safe.boxLeft && center <= safe.boxRight)) continue;
+      if (center < (safe.boxLeft + safe.boxRight) / 2) {
+        width = safe.left - x;
+      } else {
+        width = x + width - safe.right;
+        x = safe.right;
+      }
+    }
+    // Leave text alone rather than squeezing it to nothing
+    return width === region.width || width < 1 ? region : { ...region, x, width };
+  });
+};
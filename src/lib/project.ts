@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+import { DEFAULT_LOGO_KEY } from '~/lib/logos';
+import { DEFAULT_TEMPLATE_KEY, textLayerStylesSchema } from '~/lib/template';
+import { DEFAULT_THEME_KEY } from '~/lib/themes';
+
+export const cardCropSchema = z.object({
+  focusX: z.number().min(0).max(1),
+  focusY: z.number().min(0).max(1),
+  zoom: z.number().min(1).max(20),
+});
+
+const cardStateSchema = z.object({
+  name: z.string(),
+  artUrl: z.string().url().nullable(),
+  scryfallCardId: z.string().nullable(),
+  // Crops saved before they were normalized fall back to the default framing
+  crop: cardCropSchema.nullable().catch(null),
+});
+
+/**
+ * Everything needed to reopen a thumbnail in the editor exactly as it was left. Stored as JSON on
+ * `ThumbnailProject.state`, so older snapshots must keep parsing as fields are added.
+ */
+export const projectSnapshotSchema = z
+  .object({
+    leftDeckName: z.string().default(''),
+    rightDeckName: z.string().default(''),
+    templateKey: z.string().optional(),
+    // Snapshots saved before templates existed stored "Video" | "Stream" here instead of a template key
+    thumbnailType: z.enum(['Video', 'Stream']).optional(),
+    streamDate: z.string().default(''),
+    eventName: z.string().default(''),
+    bottomText: z.string().default(''),
+    selectedLogo: z.string().max(100).default(DEFAULT_LOGO_KEY), // Built-in logo key or uploaded logo id
+    themeKey: z.string().max(100).default(DEFAULT_THEME_KEY),
+    customBgUrl: z.string().nullable().default(null),
+    customBgScale: z.number().positive().default(1),
+    // Keyed by the template's slot ids; slots the template doesn't have are ignored
+    cardStates: z.record(cardStateSchema),
+    textStyles: textLayerStylesSchema.catch({}).default({}),
+  })
+  .transform(({ thumbnailType, templateKey, ...snapshot }) => ({
+    ...snapshot,
+    templateKey: templateKey ?? thumbnailType?.toLowerCase() ?? DEFAULT_TEMPLATE_KEY,
+  }));
+
+export type ProjectSnapshot = z.infer<typeof projectSnapshotSchema>;
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+import { cardCropSchema } from '~/lib/project';
+
+// Exported thumbnails start as drafts; only publishing one counts its arts and decks as used
+export type ThumbnailStatus = 'draft' | 'published';
+
+// A card as it went into an exported thumbnail. Stored on `Thumbnail.cards` until publishing logs it.
+export const thumbnailCardSchema = z.object({
+  slot: z.string().min(1),
+  cardName: z.string().min(1),
+  scryfallCardId: z.string(),
+  scryfallArtUrl: z.string().url(),
+  crop: cardCropSchema.nullish(),
+});
+
+export const thumbnailDraftSchema = z.object({
+  id: z.string().optional(), // Updates this draft instead of starting a new one, unless it's been published
+  title: z.string().max(300),
+  templateKey: z.string().min(1),
+  templateName: z.string(),
+  leftDeckName: z.string().max(100),
+  rightDeckName: z.string().max(100),
+  projectId: z.string().nullish(),
+  cards: z.array(thumbnailCardSchema).max(16),
+});
+
+export type ThumbnailCard = z.infer<typeof thumbnailCardSchema>;
+export type ThumbnailDraft = z.infer<typeof thumbnailDraftSchema>;
@@ -0,0 +1,502 @@
+import { z } from 'zod';
+
+import {
+  CANVAS_WIDTH_DEFAULT,
+  CANVAS_HEIGHT_DEFAULT,
+  PURPLE_BAR_HEIGHT,
+  PURPLE_COLOR,
+  BAR_OPACITY,
+  BORDER_WIDTH,
+  BORDER_COLOR,
+  TEXT_COLOR,
+  TEXT_STROKE_COLOR,
+  TEXT_FONT_FAMILY,
+  TEXT_FONT_STYLE,
+  TEXT_FONT_SIZE_MAX,
+  TEXT_FONT_SIZE_MIN,
+  DECK_NAME_STROKE_WIDTH,
+  TARGET_LOGO_HEIGHT,
+  type CardSlot,
+  type TextMeasureContext,
+  fitFontSize,
+} from '~/lib/thumbnail';
+
+// Editor fields a text region can display
+export const TEXT_BINDINGS = ['leftDeckName', 'rightDeckName', 'streamDate', 'eventName', 'bottomText'] as const;
+export type TextBinding = (typeof TEXT_BINDINGS)[number];
+export type TemplateTextValues = Record<TextBinding, string>;
+
+export const TEXT_CASES = ['upper', 'lower', 'none'] as const;
+export type TextCase = (typeof TEXT_CASES)[number];
+
+const boxSchema = {
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+};
+
+// Each art region is its own card slot; regions sharing a slot id show the same card
+const artRegionSchema = z.object({
+  type: z.literal('art'),
+  slot: z.string().regex(/^\w+$/, 'Slot ids may only contain letters, digits and underscores'),
+  label: z.string().optional(), // Shown next to the slot's card search, defaults to the slot id
+  ...boxSchema,
+});
+
+const barRegionSchema = z.object({
+  type: z.literal('bar'),
+  ...boxSchema,
+  fill: z.string().default(PURPLE_COLOR),
+  gradientTo: z.string().optional(), // Blends from `fill` into this color when set
+  gradientDirection: z.enum(['horizontal', 'vertical']).default('horizontal'),
+  opacity: z.number().min(0).max(1).default(BAR_OPACITY),
+});
+
+// Stroked rectangle; without a box it frames the whole canvas
+const borderRegionSchema = z.object({
+  type: z.literal('border'),
+  x: z.number().optional(),
+  y: z.number().optional(),
+  width: z.number().positive().optional(),
+  height: z.number().positive().optional(),
+  strokeWidth: z.number().min(0).default(BORDER_WIDTH), // 0 hides it
+  stroke: z.string().default(BORDER_COLOR),
+});
+
+const lineRegionSchema = z.object({
+  type: z.literal('line'),
+  points: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+  strokeWidth: z.number().min(0).default(BORDER_WIDTH), // 0 hides it
+  stroke: z.string().default(BORDER_COLOR),
+});
+
+// The logo is scaled to the box height and centered horizontally within the box
+const logoRegionSchema = z.object({
+  type: z.literal('logo'),
+  ...boxSchema,
+});
+
+const textRegionSchema = z.object({
+  type: z.literal('text'),
+  binding: z.enum(TEXT_BINDINGS).optional(),
+  text: z.string().default(''), // Static text, or the fallback when the bound field is empty
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive().optional(),
+  fontSize: z.number().positive().default(TEXT_FONT_SIZE_MAX),
+  minFontSize: z.number().positive().optional(), // Shrinks the text down to this size to fit the box
+  fontFamily: z.string().default(TEXT_FONT_FAMILY),
+  fontStyle: z.string().default(TEXT_FONT_STYLE),
+  fill: z.string().default(TEXT_COLOR),
+  stroke: z.string().default(TEXT_STROKE_COLOR),
+  strokeWidth: z.number().min(0).default(DECK_NAME_STROKE_WIDTH),
+  align: z.enum(['left', 'center', 'right']).default('center'),
+  verticalAlign: z.enum(['top', 'middle', 'bottom']).default('middle'),
+  uppercase: z.boolean().default(true),
+  textCase: z.enum(TEXT_CASES).optional(), // Wins over `uppercase` when set
+  letterSpacing: z.number().default(0),
+  shadowColor: z.string().optional(), // No shadow unless set
+  shadowBlur: z.number().min(0).default(0),
+  shadowOffsetX: z.number().default(0),
+  shadowOffsetY: z.number().default(0),
+});
+
+export const templateRegionSchema = z.discriminatedUnion('type', [
+  artRegionSchema,
+  barRegionSchema,
+  borderRegionSchema,
+  lineRegionSchema,
+  logoRegionSchema,
+  textRegionSchema,
+]);
+
+/**
+ * A thumbnail layout. Regions are drawn in order on top of the art, with geometry in template
+ * units that get scaled to whatever size the canvas is rendered at.
+ */
+export const templateDefinitionSchema = z.object({
+  width: z.number().positive().default(CANVAS_WIDTH_DEFAULT),
+  height: z.number().positive().default(CANVAS_HEIGHT_DEFAULT),
+  // Download name, with {binding} placeholders filled in from the text fields
+  fileName: z.string().default('{leftDeckName}Vs{rightDeckName}'),
+  regions: z.array(templateRegionSchema),
+});
+
+/**
+ * Changes made to one of a template's text regions for a single thumbnail, by selecting it on the
+ * canvas. Only what was changed is stored, so the rest keeps following the template.
+ */
+export const textLayerStyleSchema = z
+  .object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+    fontFamily: z.string().min(1),
+    fontStyle: z.string(),
+    fontSize: z.number().positive(),
+    fill: z.string(),
+    stroke: z.string(),
+    strokeWidth: z.number().min(0),
+    shadowColor: z.string().nullable(), // null turns off a shadow the template has
+    shadowBlur: z.number().min(0),
+    letterSpacing: z.number(),
+    textCase: z.enum(TEXT_CASES),
+    autoFit: z.boolean(), // Shrink the text to fit its box, down to TEXT_FONT_SIZE_MIN
+  })
+  .partial();
+
+// Keyed by the text region's index in the template (see `getTextLayers`)
+export const textLayerStylesSchema = z.record(textLayerStyleSchema);
+
+export type TemplateRegion = z.infer<typeof templateRegionSchema>;
+export type ArtRegion = z.infer<typeof artRegionSchema>;
+export type TextRegion = z.infer<typeof textRegionSchema>;
+export type TemplateDefinition = z.infer<typeof templateDefinitionSchema>;
+export type TextLayerStyle = z.infer<typeof textLayerStyleSchema>;
+export type TextLayerStyles = z.infer<typeof textLayerStylesSchema>;
+
+export interface ThumbnailTemplate {
+  key: string;
+  name: string;
+  definition: TemplateDefinition;
+  builtIn: boolean;
+}
+
+// Built-in layouts at 960x540, with the 294px logo centered over the purple bar
+const LOGO_X = CANVAS_WIDTH_DEFAULT / 2 - TARGET_LOGO_HEIGHT / 2;
+const LOGO_Y = CANVAS_HEIGHT_DEFAULT / 2 - PURPLE_BAR_HEIGHT + 18;
+const BAR_Y = CANVAS_HEIGHT_DEFAULT / 2 - PURPLE_BAR_HEIGHT / 2;
+const DECK_NAME_PADDING = 20;
+const SIDE_TEXT_WIDTH = LOGO_X - DECK_NAME_PADDING * 2;
+
+const quadrantArt = [
+  { type: 'art', slot: 'topLeft', label: 'Top Left Card', x: 0, y: 0, width: 480, height: 270 },
+  { type: 'art', slot: 'topRight', label: 'Top Right Card', x: 480, y: 0, width: 480, height: 270 },
+  { type: 'art', slot: 'bottomLeft', label: 'Bottom Left Card', x: 0, y: 270, width: 480, height: 270 },
+  { type: 'art', slot: 'bottomRight', label: 'Bottom Right Card', x: 480, y: 270, width: 480, height: 270 },
+] as const;
+
+const frame = [
+  { type: 'border' },
+  { type: 'line', points: [480, 0, 480, CANVAS_HEIGHT_DEFAULT] },
+] as const;
+
+// Evenly sized art slots named card1, card2, ... row by row, with divider lines between them
+const gridArt = (columns: number, rows: number) => {
+  const width = CANVAS_WIDTH_DEFAULT / columns;
+  const height = CANVAS_HEIGHT_DEFAULT / rows;
+  const art = Array.from({ length: columns * rows }, (_, index) => ({
+    type: 'art' as const,
+    slot: `card${index + 1}`,
+    label: `Card ${index + 1}`,
+    x: (index % columns) * width,
+    y: Math.floor(index / columns) * height,
+    width,
+    height,
+  }));
+  const lines = [
+    ...Array.from({ length: columns - 1 }, (_, index) => ({
+      type: 'line' as const,
+      points: [width * (index + 1), 0, width * (index + 1), CANVAS_HEIGHT_DEFAULT],
+    })),
+    ...Array.from({ length: rows - 1 }, (_, index) => ({
+      type: 'line' as const,
+      points: [0, height * (index + 1), CANVAS_WIDTH_DEFAULT, height * (index + 1)],
+    })),
+  ];
+  return [...art, { type: 'border' as const }, ...lines];
+};
+
+const logo = { type: 'logo', x: LOGO_X, y: LOGO_Y, width: TARGET_LOGO_HEIGHT, height: TARGET_LOGO_HEIGHT } as const;
+const centerBar = { type: 'bar', x: 0, y: BAR_Y, width: CANVAS_WIDTH_DEFAULT, height: PURPLE_BAR_HEIGHT } as const;
+
+// Auto-fitting text on either side of the logo, inside the center bar
+const sideText = (side: 'left' | 'right', text: Record<string, unknown>) => ({
+  type: 'text',
+  x: side === 'left' ? DECK_NAME_PADDING : LOGO_X + TARGET_LOGO_HEIGHT + DECK_NAME_PADDING,
+  y: BAR_Y,
+  width: SIDE_TEXT_WIDTH,
+  height: PURPLE_BAR_HEIGHT,
+  minFontSize: TEXT_FONT_SIZE_MIN,
+  ...text,
+});
+
+export const BUILT_IN_TEMPLATES: ThumbnailTemplate[] = [
+  {
+    key: 'video',
+    name: 'Video',
+    builtIn: true,
+    definition: templateDefinitionSchema.parse({
+      regions: [
+        ...quadrantArt,
+        centerBar,
+        ...frame,
+        logo,
+        sideText('left', { binding: 'leftDeckName' }),
+        sideText('right', { binding: 'rightDeckName' }),
+      ],
+    }),
+  },
+  {
+    key: 'stream',
+    name: 'Stream',
+    builtIn: true,
+    definition: templateDefinitionSchema.parse({
+      fileName: 'Livestream-{streamDate}',
+      regions: [
+        ...quadrantArt,
+        { type: 'bar', x: LOGO_X, y: 0, width: TARGET_LOGO_HEIGHT, height: CANVAS_HEIGHT_DEFAULT },
+        ...frame,
+        logo,
+        {
+          type: 'text',
+          binding: 'streamDate',
+          x: LOGO_X,
+          y: CANVAS_HEIGHT_DEFAULT / 2 - 200,
+          width: TARGET_LOGO_HEIGHT,
+          fontSize: TEXT_FONT_SIZE_MAX * 1.2,
+          strokeWidth: 2,
+        },
+        {
+          type: 'text',
+          binding: 'eventName',
+          text: 'MODERN FNM',
+          x: LOGO_X,
+          y: CANVAS_HEIGHT_DEFAULT / 2 - 120,
+          width: TARGET_LOGO_HEIGHT,
+          fontSize: TEXT_FONT_SIZE_MAX * 0.9,
+          strokeWidth: 1.8,
+        },
+        {
+          type: 'text',
+          binding: 'bottomText',
+          text: 'LIVE!',
+          x: LOGO_X,
+          y: CANVAS_HEIGHT_DEFAULT / 2 + 190,
+          width: TARGET_LOGO_HEIGHT,
+          fontSize: TEXT_FONT_SIZE_MAX * 1.5,
+          strokeWidth: 2.5,
+        },
+      ],
+    }),
+  },
+  {
+    key: 'deck-tech',
+    name: 'Deck Tech',
+    builtIn: true,
+    definition: templateDefinitionSchema.parse({
+      fileName: 'DeckTech-{leftDeckName}',
+      regions: [
+        { type: 'art', slot: 'feature', label: 'Feature Card', x: 0, y: 0, width: CANVAS_WIDTH_DEFAULT, height: CANVAS_HEIGHT_DEFAULT },
+        centerBar,
+        { type: 'border' },
+        logo,
+        sideText('left', { binding: 'leftDeckName' }),
+        sideText('right', { text: 'DECK TECH' }),
+      ],
+    }),
+  },
+  {
+    key: 'pod',
+    name: 'Three-Player Pod',
+    builtIn: true,
+    definition: templateDefinitionSchema.parse({
+      fileName: 'Pod-{streamDate}',
+      regions: [
+        ...gridArt(3, 1),
+        centerBar,
+        logo,
+        sideText('left', { binding: 'eventName', text: 'MODERN FNM' }),
+        sideText('right', { binding: 'streamDate' }),
+      ],
+    }),
+  },
+  {
+    key: 'top-8',
+    name: 'Top 8 Recap',
+    builtIn: true,
+    definition: templateDefinitionSchema.parse({
+      fileName: 'Top8-{eventName}',
+      regions: [
+        ...gridArt(4, 2),
+        centerBar,
+        logo,
+        sideText('left', { binding: 'eventName', text: 'MODERN FNM' }),
+        sideText('right', { text: 'TOP 8' }),
+      ],
+    }),
+  },
+];
+
+export const DEFAULT_TEMPLATE_KEY = 'video';
+
+// Falls back to the default built-in so a deleted template never leaves the editor blank
+export const findTemplate = (templates: ThumbnailTemplate[], key: string): ThumbnailTemplate =>
+  templates.find((template) => template.key === key) ??
+  BUILT_IN_TEMPLATES.find((template) => template.key === key) ??
+  BUILT_IN_TEMPLATES[0]!;
+
+export const getTemplateBindings = (definition: TemplateDefinition) =>
+  new Set(
+    definition.regions.flatMap((region) => (region.type === 'text' && region.binding ? [region.binding] : []))
+  );
+
+export interface ArtSlot {
+  slot: CardSlot;
+  label: string;
+  side: 'left' | 'right';
+  aspectRatio: number; // Width / height of the art region
+}
+
+// "topLeft" -> "Top Left"
+const formatSlotLabel = (slot: string) =>
+  slot
+    .replace(/([a-z])([A-Z0-9])/g, '$1 $2')
+    .replace(/_/g, ' ')
+    .replace(/^\w/, (char) => char.toUpperCase());
+
+/**
+ * The template's card slots in region order, each placed on the side of the editor matching
+ * where its art sits on the canvas.
+ */
+export const getArtSlots = (definition: TemplateDefinition): ArtSlot[] => {
+  const slots = new Map<CardSlot, ArtSlot>();
+  definition.regions.forEach((region) => {
+    if (region.type !== 'art' || slots.has(region.slot)) return;
+    slots.set(region.slot, {
+      slot: region.slot,
+      label: region.label ?? formatSlotLabel(region.slot),
+      side: region.x + region.width / 2 <= definition.width / 2 ? 'left' : 'right',
+      aspectRatio: region.width / region.height,
+    });
+  });
+  return [...slots.values()];
+};
+
+export const getRegionText = (region: TextRegion, values: TemplateTextValues) => {
+  const boundText = region.binding ? values[region.binding] : '';
+  const text = boundText !== '' ? boundText : region.text;
+  const textCase = region.textCase ?? (region.uppercase ? 'upper' : 'none');
+  if (textCase === 'upper') return text.toUpperCase();
+  if (textCase === 'lower') return text.toLowerCase();
+  return text;
+};
+
+export interface TextLayer {
+  key: string;
+  label: string;
+  region: TextRegion;
+}
+
+const TEXT_BINDING_LABELS: Record<TextBinding, string> = {
+  leftDeckName: 'Left Deck Name',
+  rightDeckName: 'Right Deck Name',
+  streamDate: 'Stream Date',
+  eventName: 'Event Name',
+  bottomText: 'Bottom Text',
+};
+
+// The template's text regions, keyed the way `TextLayerStyles` are
+export const getTextLayers = (definition: TemplateDefinition): TextLayer[] =>
+  definition.regions.flatMap((region, index) =>
+    region.type === 'text'
+      ? [{ key: String(index), label: region.binding ? TEXT_BINDING_LABELS[region.binding] : region.text || 'Text', region }]
+      : []
+  );
+
+// The region as it looks with a thumbnail's changes applied
+export const applyTextLayerStyle = (region: TextRegion, style: TextLayerStyle | undefined): TextRegion => {
+  if (!style) return region;
+  const { autoFit, shadowColor, ...changes } = style;
+  const styled: TextRegion = { ...region };
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value !== undefined) Object.assign(styled, { [key]: value });
+  });
+  if (shadowColor !== undefined) styled.shadowColor = shadowColor ?? undefined;
+  if (autoFit === false) styled.minFontSize = undefined;
+  if (autoFit === true) styled.minFontSize ??= Math.min(TEXT_FONT_SIZE_MIN, styled.fontSize);
+  return styled;
+};
+
+// Every region of the template, with text regions restyled by the thumbnail's text layer styles
+export const applyTextLayerStyles = (definition: TemplateDefinition, styles: TextLayerStyles | undefined) =>
+  styles && Object.keys(styles).length > 0
+    ? definition.regions.map((region, index) =>
+        region.type === 'text' ? applyTextLayerStyle(region, styles[String(index)]) : region
+      )
+    : definition.regions;
+
+// Font size for a text region, shrinking auto-fit regions until the wrapped text fits the box
+export const resolveFontSize = (region: TextRegion, text: string, context: TextMeasureContext | null) => {
+  if (region.minFontSize === undefined || !context) return region.fontSize;
+  return fitFontSize(
+    context,
+    text,
+    region.width,
+    region.height ?? region.fontSize * 1.2,
+    region.fontSize,
+    region.minFontSize,
+    region.fontFamily,
+    region.fontStyle
+  );
+};
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The template re-laid out for another aspect ratio by stretching it along one axis. Art and
+ * divider lines stretch with the canvas, as does anything spanning the whole stretched axis (like
+ * the Stream template's center column). Bars, the logo and text keep their size and their distance
+ * from the canvas center, so what's grouped around the logo stays together.
+ */
+export const fitTemplateToAspectRatio = (definition: TemplateDefinition, aspectRatio: number): TemplateDefinition => {
+  const currentRatio = definition.width / definition.height;
+  if (Math.abs(currentRatio - aspectRatio) < 0.01) return definition;
+
+  const width = aspectRatio < currentRatio ? definition.width : definition.height * aspectRatio;
+  const height = aspectRatio < currentRatio ? definition.width / aspectRatio : definition.height;
+  const scaleX = width / definition.width;
+  const scaleY = height / definition.height;
+
+  const fitAxis = (start: number, size: number, length: number, scale: number) =>
+    scale === 1 || (start <= 0 && start + size >= length)
+      ? { start: start * scale, size: size * scale }
+      : { start: start + (length * scale - length) / 2, size };
+  const fitBox = ({ x, y, width: boxWidth, height: boxHeight }: Box): Box => {
+    const horizontal = fitAxis(x, boxWidth, definition.width, scaleX);
+    const vertical = fitAxis(y, boxHeight, definition.height, scaleY);
+    return { x: horizontal.start, y: vertical.start, width: horizontal.size, height: vertical.size };
+  };
+
+  const regions = definition.regions.map((region): TemplateRegion => {
+    switch (region.type) {
+      case 'art':
+        return { ...region, x: region.x * scaleX, y: region.y * scaleY, width: region.width * scaleX, height: region.height * scaleY };
+      case 'line': {
+        const [x1, y1, x2, y2] = region.points;
+        return { ...region, points: [x1 * scaleX, y1 * scaleY, x2 * scaleX, y2 * scaleY] };
+      }
+      case 'border':
+        if (region.x === undefined || region.y === undefined || region.width === undefined || region.height === undefined) {
+          return region; // Frames the whole canvas whatever its size
+        }
+        return { ...region, ...fitBox({ x: region.x, y: region.y, width: region.width, height: region.height }) };
+      case 'text': {
+        const box = fitBox({ x: region.x, y: region.y, width: region.width, height: region.height ?? 0 });
+        return { ...region, x: box.x, y: box.y, width: box.width, height: region.height === undefined ? undefined : box.height };
+      }
+      default:
+        return { ...region, ...fitBox(region) };
+    }
+  });
+
+  return { ...definition, width, height, regions };
+};
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+import {
+  BAR_OPACITY,
+  BORDER_COLOR,
+  BORDER_WIDTH,
+  PURPLE_COLOR,
+  TEXT_COLOR,
+  TEXT_STROKE_COLOR,
+} from '~/lib/thumbnail';
+import { type TemplateDefinition } from '~/lib/template';
+
+/**
+ * A named look for the bars, borders, dividers and text of any template. Every field defaults to
+ * the original OCHM styling, so a theme only needs the values it changes.
+ */
+export const themeDefinitionSchema = z.object({
+  barColor: z.string().default(PURPLE_COLOR),
+  barGradientTo: z.string().nullable().default(null), // Bars blend from `barColor` into this when set
+  barGradientDirection: z.enum(['horizontal', 'vertical']).default('horizontal'),
+  barOpacity: z.number().min(0).max(1).default(BAR_OPACITY),
+  borderWidth: z.number().min(0).max(50).default(BORDER_WIDTH), // 0 hides the border
+  borderColor: z.string().default(BORDER_COLOR),
+  dividerWidth: z.number().min(0).max(50).default(BORDER_WIDTH),
+  dividerColor: z.string().default(BORDER_COLOR),
+  textColor: z.string().default(TEXT_COLOR),
+  textStrokeColor: z.string().default(TEXT_STROKE_COLOR),
+});
+
+export type ThemeDefinition = z.infer<typeof themeDefinitionSchema>;
+
+export interface ThumbnailTheme {
+  key: string;
+  name: string;
+  definition: ThemeDefinition;
+  builtIn: boolean;
+}
+
+export const DEFAULT_THEME_KEY = 'ochm';
+
+export const BUILT_IN_THEMES: ThumbnailTheme[] = [
+  { key: 'ochm', name: 'OCHM Purple', definition: themeDefinitionSchema.parse({}), builtIn: true },
+];
+
+export const findTheme = (themes: ThumbnailTheme[], key: string): ThumbnailTheme =>
+  themes.find((theme) => theme.key === key) ??
+  BUILT_IN_THEMES.find((theme) => theme.key === key) ??
+  BUILT_IN_THEMES[0]!;
+
+// Swaps `value` for the theme's when it's still the house default the template schema filled in
+const themed = <T>(value: T, houseDefault: T, themeValue: T) => (value === houseDefault ? themeValue : value);
+
+/**
+ * Restyles a template with a theme. Only values left at the house defaults change, so templates
+ * that pick their own colors (and text restyled on the canvas, applied afterwards) keep them.
+ */
+export const applyTheme = (definition: TemplateDefinition, theme: ThemeDefinition): TemplateDefinition => ({
+  ...definition,
+  regions: definition.regions.map((region) => {
+    switch (region.type) {
+      case 'bar': {
+        const isHouseFill = region.fill === PURPLE_COLOR && region.gradientTo === undefined;
+        return {
+          ...region,
+          fill: isHouseFill ? theme.barColor : region.fill,
+          gradientTo: isHouseFill ? theme.barGradientTo ?? undefined : region.gradientTo,
+          gradientDirection: isHouseFill ? theme.barGradientDirection : region.gradientDirection,
+          opacity: themed(region.opacity, BAR_OPACITY, theme.barOpacity),
+        };
+      }
+      case 'border':
+        return {
+          ...region,
+          stroke: themed(region.stroke, BORDER_COLOR, theme.borderColor),
+          strokeWidth: themed(region.strokeWidth, BORDER_WIDTH, theme.borderWidth),
+        };
+      case 'line':
+        return {
+          ...region,
+          stroke: themed(region.stroke, BORDER_COLOR, theme.dividerColor),
+          strokeWidth: themed(region.strokeWidth, BORDER_WIDTH, theme.dividerWidth),
+        };
+      case 'text':
+        return {
+          ...region,
+          fill: themed(region.fill, TEXT_COLOR, theme.textColor),
+          stroke: themed(region.stroke, TEXT_STROKE_COLOR, theme.textStrokeColor),
+        };
+      default:
+        return region;
+    }
+  }),
+});
+
+// Start and end points of a bar's gradient, relative to the bar
+export const getBarGradientPoints = (width: number, height: number, direction: ThemeDefinition['barGradientDirection']) =>
+  direction === 'vertical'
+    ? { start: { x: 0, y: 0 }, end: { x: 0, y: height } }
+    : { start: { x: 0, y: 0 }, end: { x: width, y: 0 } };
+
+// Color inputs only take #rrggbb, so named colors like "white" go through a canvas to get their
+// hex. Browser only.
+export const toHexColor = (color: string) => {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) return '#000000';
+  context.fillStyle = color;
+  return /^#[0-9a-f]{6}$/i.test(context.fillStyle) ? context.fillStyle : '#000000';
+};
@@ -0,0 +1,219 @@
+// Shared thumbnail layout used by both the Konva canvas in the browser and the
+// server-side renderer, so that both produce the same image.
+
+// Id of an art slot, as named by the template's art regions (e.g. 'topLeft' or 'card3')
+export type CardSlot = string;
+
+/**
+ * Framing of a card art inside its quadrant, independent of the image and quadrant sizes.
+ * `focusX`/`focusY` is the point of the image (0-1) shown at the quadrant's center, and `zoom` is
+ * relative to the cover fit, so `{ focusX: 0.5, focusY: 0.5, zoom: 1 }` is the default framing.
+ */
+export interface CardCrop {
+  focusX: number;
+  focusY: number;
+  zoom: number;
+}
+
+export const DEFAULT_CARD_CROP: CardCrop = { focusX: 0.5, focusY: 0.5, zoom: 1 };
+
+// Position and scale of an image inside its quadrant, in canvas pixels
+export interface QuadrantPlacement {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Smallest scale at which the image still covers the whole quadrant
+export const getCoverScale = (imageWidth: number, imageHeight: number, width: number, height: number) =>
+  Math.max(width / imageWidth, height / imageHeight);
+
+// Keeps the image covering the quadrant, centering it along any axis where it is smaller
+export const constrainPlacement = (
+  { x, y, scale }: QuadrantPlacement,
+  imageWidth: number,
+  imageHeight: number,
+  width: number,
+  height: number
+): QuadrantPlacement => {
+  const scaledWidth = imageWidth * scale;
+  const scaledHeight = imageHeight * scale;
+  return {
+    x: scaledWidth < width ? (width - scaledWidth) / 2 : clamp(x, width - scaledWidth, 0),
+    y: scaledHeight < height ? (height - scaledHeight) / 2 : clamp(y, height - scaledHeight, 0),
+    scale,
+  };
+};
+
+export const cropToPlacement = (
+  crop: CardCrop | null | undefined,
+  imageWidth: number,
+  imageHeight: number,
+  width: number,
+  height: number
+): QuadrantPlacement => {
+  const { focusX, focusY, zoom } = crop ?? DEFAULT_CARD_CROP;
+  const scale = getCoverScale(imageWidth, imageHeight, width, height) * Math.max(zoom, 1);
+  return constrainPlacement(
+    {
+      x: width / 2 - focusX * imageWidth * scale,
+      y: height / 2 - focusY * imageHeight * scale,
+      scale,
+    },
+    imageWidth,
+    imageHeight,
+    width,
+    height
+  );
+};
+
+export const placementToCrop = (
+  { x, y, scale }: QuadrantPlacement,
+  imageWidth: number,
+  imageHeight: number,
+  width: number,
+  height: number
+): CardCrop => ({
+  focusX: clamp((width / 2 - x) / (imageWidth * scale), 0, 1),
+  focusY: clamp((height / 2 - y) / (imageHeight * scale), 0, 1),
+  zoom: Math.max(scale / getCoverScale(imageWidth, imageHeight, width, height), 1),
+});
+
+// Scryfall art routed through the server's image cache (see `/api/image`)
+export const getProxiedImageUrl = (imageUrl: string) => `/api/image?url=${encodeURIComponent(imageUrl)}`;
+
+export const CANVAS_WIDTH_DEFAULT = 960; // 1920 / 2
+export const CANVAS_HEIGHT_DEFAULT = 540; // 1080 / 2
+export const EXPORT_PIXEL_RATIO = 1.3334; // 960x540 -> 1280x720
+export const PURPLE_BAR_HEIGHT = 98; // Adjust as needed
+export const PURPLE_COLOR = '#6A0DAD'; // Example purple, adjust to match reference
+export const BAR_OPACITY = 0.63;
+export const BORDER_WIDTH = 10;
+export const BORDER_COLOR = 'black';
+export const TEXT_COLOR = 'white';
+export const TEXT_STROKE_COLOR = 'black';
+export const TEXT_FONT_FAMILY = 'Calibri, sans-serif'; // Bold, impactful font
+export const TEXT_FONT_STYLE = 'bold';
+// Offered when restyling a text layer; the server renderer needs them installed too
+export const TEXT_FONT_FAMILIES = [
+  TEXT_FONT_FAMILY,
+  'Impact, sans-serif',
+  'Arial Black, sans-serif',
+  'Trebuchet MS, sans-serif',
+  'Verdana, sans-serif',
+  'Georgia, serif',
+];
+export const TEXT_FONT_SIZE_MAX = 48; // Maximum font size
+export const TEXT_FONT_SIZE_MIN = 24; // Minimum font size
+export const DECK_NAME_STROKE_WIDTH = 2.3;
+
+// Define fixed logo dimensions on the canvas
+export const TARGET_LOGO_HEIGHT = 294; // Target height for the logo
+
+// Anything with a 2D context's font/measureText, i.e. the DOM canvas or node-canvas
+export interface TextMeasureContext {
+  font: string;
+  measureText: (text: string) => { width: number };
+}
+
+// Splits text into lines that fit within maxWidth, breaking on spaces
+export const wrapText = (context: TextMeasureContext, text: string, maxWidth: number): string[] => {
+  const words = text.split(' ');
+  const lines: string[] = [];
+  let currentLine = '';
+
+  for (const word of words) {
+    const testLine = currentLine ? `${currentLine} ${word}` : word;
+    const testWidth = context.measureText(testLine).width;
+
+    if (testWidth <= maxWidth) {
+      currentLine = testLine;
+    } else {
+      if (currentLine) {
+        lines.push(currentLine);
+        currentLine = word;
+      } else {
+        // Single word is too wide, use it anyway
+        lines.push(word);
+        currentLine = '';
+      }
+    }
+  }
+
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+
+  return lines;
+};
+
+// Calculates the optimal font size for multi-line text that fits within given width and height
+export const fitFontSize = (
+  context: TextMeasureContext,
+  text: string,
+  maxWidth: number,
+  maxHeight: number,
+  maxFontSize: number = TEXT_FONT_SIZE_MAX,
+  minFontSize: number = TEXT_FONT_SIZE_MIN,
+  fontFamily: string = TEXT_FONT_FAMILY,
+  fontStyle: string = TEXT_FONT_STYLE
+): number => {
+  // Simulate word wrapping and calculate total height
+  const calculateTextHeight = (fontSize: number): number => {
+    context.font = `${fontStyle} ${fontSize}px ${fontFamily}`;
+    const lines = wrapText(context, text, maxWidth);
+
+    // Line height is typically 1.2 times the font size
+    const lineHeight = fontSize * 1.2;
+    return lines.length * lineHeight;
+  };
+
+  // Binary search for optimal font size
+  let low = minFontSize;
+  let high = maxFontSize;
+  let optimalSize = maxFontSize;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const textHeight = calculateTextHeight(mid);
+
+    if (textHeight <= maxHeight) {
+      optimalSize = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return optimalSize;
+};
+
+// Helper function to convert string to PascalCase
+const toPascalCase = (str: string) => {
+  return str
+    .replace(/[^\w\s-]/gi, '') // Remove special characters except hyphens and spaces
+    .replace(/\s+|-+/g, ' ') // Replace hyphens and multiple spaces with a single space
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+};
+
+const FILE_NAME_FALLBACKS: Record<string, string> = {
+  leftDeckName: 'Deck1',
+  rightDeckName: 'Deck2',
+  streamDate: 'NoDate',
+};
+
+// Base name shared by downloads and saved projects, built from a template's file name pattern,
+// e.g. "{leftDeckName}Vs{rightDeckName}" -> "BorosEnergyVsAmuletTitan"
+export const getThumbnailTitle = (pattern: string, values: Record<string, string>) =>
+  pattern.replace(/\{(\w+)\}/g, (_match, key: string) => {
+    const trimmed = values[key]?.trim() ?? '';
+    const value = trimmed !== '' ? trimmed : FILE_NAME_FALLBACKS[key] ?? '';
+    return key.endsWith('DeckName') ? toPascalCase(value) : value.replace(/[\/\s]+/g, '-');
+  });
+
+export const getThumbnailFileName = (pattern: string, values: Record<string, string>, extension = 'png') =>
+  `${getThumbnailTitle(pattern, values)}.${extension}`;
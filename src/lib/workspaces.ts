@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+/**
+ * A channel with its own decks, art usage, logos, themes, projects and thumbnails, so an art used
+ * on one channel doesn't count as used on the other. Templates and fonts are shared by all.
+ */
+export interface Workspace {
+  key: string;
+  name: string;
+  builtIn: boolean;
+}
+
+// Rows from before workspaces existed belong to this one, see the `workspaceKey` defaults
+export const DEFAULT_WORKSPACE_KEY = 'ochm';
+
+export const BUILT_IN_WORKSPACES: Workspace[] = [
+  { key: 'ochm', name: 'OCHM', builtIn: true },
+  { key: 'ocho', name: 'OCHO', builtIn: true },
+];
+
+export const findWorkspace = (workspaces: Workspace[], key: string): Workspace =>
+  workspaces.find((workspace) => workspace.key === key) ??
+  BUILT_IN_WORKSPACES.find((workspace) => workspace.key === key) ??
+  BUILT_IN_WORKSPACES[0]!;
+
+export const workspaceKeySchema = z.string().min(1).max(50).regex(/^[a-z0-9-]+$/, 'Key must be lowercase letters, numbers and dashes');
+export const workspaceNameSchema = z.string().trim().min(1).max(100);
+
+// Set by the workspace switcher; every request works in the workspace it names
+export const WORKSPACE_COOKIE = 'ochm_workspace';
@@ -2,6 +2,15 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 import { scryfallRouter } from "~/server/api/routers/scryfall";
 import { artRouter } from "~/server/api/routers/art";
 import { deckRouter } from "~/server/api/routers/deck";
+import { renderRouter } from "~/server/api/routers/render";
+import { projectRouter } from "~/server/api/routers/project";
+import { templateRouter } from "~/server/api/routers/template";
+import { thumbnailRouter } from "~/server/api/routers/thumbnail";
+import { fontRouter } from "~/server/api/routers/font";
+import { logoRouter } from "~/server/api/routers/logo";
+import { themeRouter } from "~/server/api/routers/theme";
+import { authRouter } from "~/server/api/routers/auth";
+import { workspaceRouter } from "~/server/api/routers/workspace";
 
 /**
  * This is the primary router for your server.
@@ -12,6 +21,15 @@ export const appRouter = createTRPCRouter({
   scryfall: scryfallRouter,
   art: artRouter,
   deck: deckRouter,
+  render: renderRouter,
+  project: projectRouter,
+  template: templateRouter,
+  thumbnail: thumbnailRouter,
+  font: fontRouter,
+  logo: logoRouter,
+  theme: themeRouter,
+  auth: authRouter,
+  workspace: workspaceRouter,
 });
 
 // export type definition of API
@@ -1,58 +1,142 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { createTRPCRouter, editorProcedure, protectedProcedure } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
+import { undoArtUsage } from "~/server/artUsage";
+import { usageWhere } from "~/server/workspaces";
 
+const HISTORY_LIMIT = 200;
+
+// Reads default to the current workspace's usage; `allWorkspaces` looks across every channel
+const usageScopeInput = { allWorkspaces: z.boolean().default(false) };
+
+// Uses are only recorded by publishing a thumbnail, see `publishThumbnail`
 export const artRouter = createTRPCRouter({
-  recordArtUsage: publicProcedure
-    .input(
-      z.object({
-        scryfallCardId: z.string(),
-        scryfallArtUrl: z.string().url(),
-      })
-    )
+  // Reverts a single logged use, e.g. one picked by mistake
+  undoUsage: editorProcedure
+    .input(z.object({ eventId: z.string() }))
     .mutation(async ({ input, ctx }) => {
       try {
-        return await ctx.db.cardArtUsage.upsert({
-          where: { scryfallArtUrl: input.scryfallArtUrl },
-          update: {
-            scryfallCardId: input.scryfallCardId,
-            lastUsedAt: new Date(),
-          },
-          create: {
-            scryfallCardId: input.scryfallCardId,
-            scryfallArtUrl: input.scryfallArtUrl,
-          },
-        });
+        const reverted = await ctx.db.$transaction((tx) => undoArtUsage(tx, { id: input.eventId, workspaceKey: ctx.workspace.key }));
+        if (reverted === 0) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Usage not found or already undone" });
+        }
+        return { eventId: input.eventId };
       } catch (error) {
-        console.error("Failed to record art usage:", error);
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to undo art usage:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to record art usage",
+          message: "Failed to undo art usage",
           cause: error,
         });
       }
     }),
 
-  getArtUsage: publicProcedure
-    .input(z.object({ artUrls: z.array(z.string().url()) }))
+  getArtUsage: protectedProcedure
+    .input(z.object({ artUrls: z.array(z.string().url()), ...usageScopeInput }))
     .query(async ({ input, ctx }) => {
       if (input.artUrls.length === 0) return [];
+      const scope = usageWhere(input.allWorkspaces ? null : ctx.workspace.key);
       
       try {
-        return await ctx.db.cardArtUsage.findMany({
-          where: {
-            scryfallArtUrl: {
-              in: input.artUrls,
+        const [usages, eventCounts, lastThumbnailEvents] = await Promise.all([
+          // Newest first, so across workspaces each art keeps its latest use
+          ctx.db.cardArtUsage.findMany({
+            where: {
+              ...scope,
+              scryfallArtUrl: {
+                in: input.artUrls,
+              },
             },
+            orderBy: { lastUsedAt: "desc" },
+            distinct: ["scryfallArtUrl"],
+            select: {
+              workspaceKey: true,
+              scryfallArtUrl: true,
+              lastUsedAt: true,
+              cropFocusX: true,
+              cropFocusY: true,
+              cropZoom: true,
+            },
+          }),
+          ctx.db.artUsageEvent.groupBy({
+            by: ["scryfallArtUrl"],
+            where: { ...scope, scryfallArtUrl: { in: input.artUrls }, revertedAt: null },
+            _count: { _all: true },
+          }),
+          ctx.db.artUsageEvent.findMany({
+            where: { ...scope, scryfallArtUrl: { in: input.artUrls }, thumbnailId: { not: null }, revertedAt: null },
+            orderBy: { usedAt: "desc" },
+            distinct: ["scryfallArtUrl"],
+            select: {
+              workspaceKey: true,
+              scryfallArtUrl: true,
+              usedAt: true,
+              thumbnail: { select: { leftDeckName: true, rightDeckName: true } },
+            },
+          }),
+        ]);
+        const useCounts = new Map(eventCounts.map((count) => [count.scryfallArtUrl, count._count._all]));
+        const lastThumbnails = new Map(lastThumbnailEvents.map((event) => [event.scryfallArtUrl, event]));
+
+        return usages.map(({ cropFocusX, cropFocusY, cropZoom, ...usage }) => {
+          const lastThumbnail = lastThumbnails.get(usage.scryfallArtUrl);
+          return {
+            ...usage,
+            // Arts used before the log existed have a last use but no events
+            useCount: Math.max(useCounts.get(usage.scryfallArtUrl) ?? 0, 1),
+            lastUsedIn: lastThumbnail?.thumbnail
+              ? { ...lastThumbnail.thumbnail, usedAt: lastThumbnail.usedAt, workspaceKey: lastThumbnail.workspaceKey }
+              : null,
+            lastCrop:
+              cropFocusX !== null && cropFocusY !== null && cropZoom !== null
+                ? { focusX: cropFocusX, focusY: cropFocusY, zoom: cropZoom }
+                : null,
+          };
+        });
+      } catch (error) {
+        console.error("Failed to get art usage:", error);
+        return [];
+      }
+    }),
+
+  // Every published thumbnail a card went into, newest first
+  getCardHistory: protectedProcedure
+    .input(z.object({ cardName: z.string(), ...usageScopeInput }))
+    .query(async ({ input, ctx }) => {
+      if (!input.cardName.trim()) return [];
+
+      try {
+        return await ctx.db.artUsageEvent.findMany({
+          where: {
+            ...usageWhere(input.allWorkspaces ? null : ctx.workspace.key),
+            cardName: { equals: input.cardName.trim(), mode: "insensitive" },
+            thumbnailId: { not: null },
+            revertedAt: null,
           },
+          orderBy: { usedAt: "desc" },
+          take: HISTORY_LIMIT,
           select: {
+            id: true,
+            workspaceKey: true,
             scryfallArtUrl: true,
-            lastUsedAt: true,
+            slot: true,
+            usedAt: true,
+            thumbnail: {
+              select: {
+                id: true,
+                title: true,
+                templateName: true,
+                leftDeckName: true,
+                rightDeckName: true,
+                project: { select: { id: true, name: true } },
+              },
+            },
           },
         });
       } catch (error) {
-        console.error("Failed to get art usage:", error);
+        console.error("Failed to get card history:", error);
         return [];
       }
     }),
-}); 
\ No newline at end of file
+});
\ No newline at end of file
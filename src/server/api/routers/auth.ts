@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { USER_ROLES, credentialsSchema } from "~/lib/auth";
+import { createUser, sessionUserSelect } from "~/server/auth";
+
+// Signing in and out goes through /api/auth, since those set and clear the session cookie
+export const authRouter = createTRPCRouter({
+  me: publicProcedure
+    .query(({ ctx }) => ctx.user),
+
+  // True until the first account exists; that account is created through /api/auth/setup as an admin
+  needsSetup: publicProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return (await ctx.db.user.count()) === 0;
+      } catch (error) {
+        console.error("Failed to count users:", error);
+        return false;
+      }
+    }),
+
+  listUsers: adminProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await ctx.db.user.findMany({
+          orderBy: { username: "asc" },
+          select: { ...sessionUserSelect, createdAt: true },
+        });
+      } catch (error) {
+        console.error("Failed to list users:", error);
+        return [];
+      }
+    }),
+
+  createUser: adminProcedure
+    .input(credentialsSchema.extend({ role: z.enum(USER_ROLES) }))
+    .mutation(async ({ input: { role, ...credentials }, ctx }) => {
+      try {
+        return await createUser(ctx.db, credentials, role);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to create user:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to create user",
+          cause: error,
+        });
+      }
+    }),
+
+  updateRole: adminProcedure
+    .input(z.object({ id: z.string(), role: z.enum(USER_ROLES) }))
+    .mutation(async ({ input, ctx }) => {
+      // Otherwise the last admin could lock everyone out of account management
+      if (input.id === ctx.user.id) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You can't change your own role" });
+      }
+      try {
+        return await ctx.db.user.update({ where: { id: input.id }, data: { role: input.role }, select: sessionUserSelect });
+      } catch (error) {
+        console.error("Failed to update user role:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update user role",
+          cause: error,
+        });
+      }
+    }),
+
+  deleteUser: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.id === ctx.user.id) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You can't delete your own account" });
+      }
+      try {
+        await ctx.db.user.delete({ where: { id: input.id } });
+        return { id: input.id };
+      } catch (error) {
+        console.error("Failed to delete user:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete user",
+          cause: error,
+        });
+      }
+    }),
+});
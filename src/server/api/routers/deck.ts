@@ -1,57 +1,351 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { createTRPCRouter, editorProcedure, protectedProcedure } from "~/server/api/trpc";
 import { TRPCError } from "@trpc/server";
+import { decklistSchema } from "~/lib/decklist";
+import { deckNameSchema, deckProfileSchema, normalizeColors } from "~/lib/deckProfile";
+import { pickRecommendedArt } from "~/server/artRanking";
+import {
+  deckNameWhere,
+  deckProfileSelect,
+  findConflictingDeckNames,
+  findDeckByNameOrAlias,
+  rollbackDeckUsage,
+  toDeckProfile,
+} from "~/server/decks";
+import { searchCardArts } from "~/server/scryfall";
 
 export const deckRouter = createTRPCRouter({
-  autocompleteDeckName: publicProcedure
+  autocompleteDeckName: protectedProcedure
     .input(z.object({ query: z.string() }))
-    .output(z.array(z.object({ name: z.string(), lastUsedAt: z.date() })))
+    .output(z.array(z.object({ name: z.string(), lastUsedAt: z.date(), matchedAlias: z.string().nullable() })))
     .query(async ({ ctx, input }) => {
       if (!input.query) return [];
       
       try {
-        return await ctx.db.deck.findMany({
+        const contains = { contains: input.query, mode: "insensitive" as const };
+        const decks = await ctx.db.deck.findMany({
           where: {
-            name: {
-              contains: input.query,
-              mode: "insensitive",
-            },
+            workspaceKey: ctx.workspace.key,
+            OR: [{ name: contains }, { aliases: { some: { name: contains } } }],
           },
           select: {
             name: true,
             lastUsedAt: true,
+            aliases: { where: { name: contains }, select: { name: true }, take: 1 },
           },
           orderBy: {
             lastUsedAt: "desc",
           },
           take: 10,
         });
+
+        return decks.map(({ aliases, ...deck }) => ({
+          ...deck,
+          // Only shown when the deck was found through an alias
+          matchedAlias: deck.name.toLowerCase().includes(input.query.toLowerCase()) ? null : aliases[0]?.name ?? null,
+        }));
       } catch (error) {
         console.error("Failed to autocomplete deck name:", error);
         return [];
       }
     }),
 
-  saveOrUpdateDeckName: publicProcedure
-    .input(z.object({ 
-      name: z.string().min(1).max(100)
+  getDecklist: protectedProcedure
+    .input(z.object({ name: z.string() }))
+    .query(async ({ ctx, input }) => {
+      if (!input.name) return null;
+
+      try {
+        const deck = await ctx.db.deck.findUnique({
+          where: deckNameWhere(ctx.workspace.key, input.name),
+          select: { decklist: true },
+        });
+        if (!deck?.decklist) return null;
+
+        const decklist = decklistSchema.safeParse(deck.decklist);
+        if (!decklist.success) {
+          console.error(`Deck "${input.name}" has an invalid decklist:`, decklist.error);
+          return null;
+        }
+        return decklist.data;
+      } catch (error) {
+        console.error("Failed to get decklist:", error);
+        return null;
+      }
+    }),
+
+  saveDecklist: editorProcedure
+    .input(z.object({
+      name: z.string().min(1).max(100),
+      decklist: decklistSchema,
     }))
     .mutation(async ({ input, ctx }) => {
       try {
         return await ctx.db.deck.upsert({
-          where: { name: input.name },
-          update: {
-            lastUsedAt: new Date(),
-          },
-          create: {
-            name: input.name,
-          },
+          where: deckNameWhere(ctx.workspace.key, input.name),
+          update: { decklist: input.decklist },
+          create: { workspaceKey: ctx.workspace.key, name: input.name, decklist: input.decklist },
+          select: { name: true, decklist: true },
+        });
+      } catch (error) {
+        console.error("Failed to save decklist:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save decklist",
+          cause: error,
+        });
+      }
+    }),
+
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        const decks = await ctx.db.deck.findMany({
+          where: { workspaceKey: ctx.workspace.key },
+          select: deckProfileSelect,
+          orderBy: { lastUsedAt: "desc" },
+          take: 200,
+        });
+        return decks.map(toDeckProfile);
+      } catch (error) {
+        console.error("Failed to list decks:", error);
+        return [];
+      }
+    }),
+
+  getProfile: protectedProcedure
+    .input(z.object({ name: z.string() }))
+    .query(async ({ ctx, input }) => {
+      if (!input.name.trim()) return null;
+
+      try {
+        const deck = await findDeckByNameOrAlias(ctx.db, ctx.workspace.key, input.name.trim());
+        return deck ? toDeckProfile(deck) : null;
+      } catch (error) {
+        console.error("Failed to get deck profile:", error);
+        return null;
+      }
+    }),
+
+  // Key cards with an art for each, using the preferred printing or else the recommended one
+  resolveKeyCards: protectedProcedure
+    .input(z.object({ name: z.string() }))
+    .query(async ({ ctx, input }) => {
+      if (!input.name.trim()) return null;
+
+      try {
+        const deck = await findDeckByNameOrAlias(ctx.db, ctx.workspace.key, input.name.trim());
+        if (!deck) return null;
+
+        const { name, keyCards } = toDeckProfile(deck);
+        const cards = await Promise.all(keyCards.map(async (keyCard) => {
+          if (keyCard.artUrl && keyCard.scryfallCardId) {
+            return { cardName: keyCard.cardName, artUrl: keyCard.artUrl, scryfallCardId: keyCard.scryfallCardId };
+          }
+          const art = await pickRecommendedArt(ctx.db, ctx.workspace.key, await searchCardArts(keyCard.cardName));
+          return { cardName: keyCard.cardName, artUrl: art?.artUrl ?? null, scryfallCardId: art?.scryfallPrintId ?? null };
+        }));
+        return { name, cards };
+      } catch (error) {
+        console.error("Failed to resolve deck key cards:", error);
+        return null;
+      }
+    }),
+
+  // Updates the given parts of a deck's profile, creating the deck if it doesn't exist yet
+  editProfile: editorProcedure
+    .input(z.object({
+      name: deckNameSchema,
+      profile: deckProfileSchema.partial(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { keyCards, colors, aliases } = input.profile;
+      const workspaceKey = ctx.workspace.key;
+
+      try {
+        const deck = await ctx.db.$transaction(async (tx) => {
+          const existing = await tx.deck.findUnique({ where: deckNameWhere(workspaceKey, input.name), select: { id: true } });
+          if (aliases) {
+            const conflicts = await findConflictingDeckNames(tx, workspaceKey, aliases, existing?.id);
+            if (conflicts.length > 0) {
+              throw new TRPCError({
+                code: "CONFLICT",
+                message: `Already used by another deck: ${conflicts.join(", ")}`,
+              });
+            }
+          }
+
+          const data = {
+            keyCards,
+            colors: colors && normalizeColors(colors),
+            aliases: aliases && {
+              // Aliases matching the deck's own name would only shadow it
+              create: [...new Set(aliases)]
+                .filter((alias) => alias.toLowerCase() !== input.name.toLowerCase())
+                .map((name) => ({ workspaceKey, name })),
+            },
+          };
+
+          if (!existing) {
+            return tx.deck.create({ data: { workspaceKey, name: input.name, ...data }, select: deckProfileSelect });
+          }
+          if (aliases) await tx.deckAlias.deleteMany({ where: { deckId: existing.id } });
+          return tx.deck.update({ where: { id: existing.id }, data, select: deckProfileSelect });
         });
+        return toDeckProfile(deck);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to edit deck profile:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to edit deck profile",
+          cause: error,
+        });
+      }
+    }),
+
+  rename: editorProcedure
+    .input(z.object({
+      name: z.string(),
+      newName: deckNameSchema,
+      keepOldNameAsAlias: z.boolean().default(true),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const workspaceKey = ctx.workspace.key;
+
+      try {
+        const deck = await ctx.db.$transaction(async (tx) => {
+          const existing = await tx.deck.findUnique({ where: deckNameWhere(workspaceKey, input.name), select: { id: true } });
+          if (!existing) {
+            throw new TRPCError({ code: "NOT_FOUND", message: `Deck "${input.name}" not found` });
+          }
+          const conflicts = await findConflictingDeckNames(tx, workspaceKey, [input.newName], existing.id);
+          if (conflicts.length > 0) {
+            throw new TRPCError({ code: "CONFLICT", message: `"${input.newName}" is already used by another deck` });
+          }
+
+          // Renaming a deck to one of its own aliases promotes that alias
+          await tx.deckAlias.deleteMany({
+            where: { deckId: existing.id, name: { equals: input.newName, mode: "insensitive" } },
+          });
+          const keepAlias = input.keepOldNameAsAlias && input.name.toLowerCase() !== input.newName.toLowerCase();
+          return tx.deck.update({
+            where: { id: existing.id },
+            data: {
+              name: input.newName,
+              aliases: keepAlias ? { create: { workspaceKey, name: input.name } } : undefined,
+            },
+            select: deckProfileSelect,
+          });
+        });
+        return toDeckProfile(deck);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to rename deck:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to rename deck",
+          cause: error,
+        });
+      }
+    }),
+
+  /**
+   * Folds one deck into another: the source's name and aliases become aliases of the target, and
+   * its key cards, colors and decklist fill in whatever the target is missing.
+   */
+  merge: editorProcedure
+    .input(z.object({
+      sourceName: z.string(),
+      targetName: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.sourceName === input.targetName) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Can't merge a deck into itself" });
+      }
+      const workspaceKey = ctx.workspace.key;
+
+      try {
+        const deck = await ctx.db.$transaction(async (tx) => {
+          const [source, target] = await Promise.all([
+            tx.deck.findUnique({ where: deckNameWhere(workspaceKey, input.sourceName), select: { ...deckProfileSelect, decklist: true } }),
+            tx.deck.findUnique({ where: deckNameWhere(workspaceKey, input.targetName), select: { ...deckProfileSelect, decklist: true } }),
+          ]);
+          if (!source || !target) {
+            throw new TRPCError({
+              code: "NOT_FOUND",
+              message: `Deck "${source ? input.targetName : input.sourceName}" not found`,
+            });
+          }
+
+          const sourceProfile = toDeckProfile(source);
+          const targetProfile = toDeckProfile(target);
+          const targetCardNames = new Set(targetProfile.keyCards.map((card) => card.cardName.toLowerCase()));
+          const keyCards = [
+            ...targetProfile.keyCards,
+            ...sourceProfile.keyCards.filter((card) => !targetCardNames.has(card.cardName.toLowerCase())),
+          ].slice(0, 8);
+
+          await tx.deckAlias.updateMany({ where: { deckId: source.id }, data: { deckId: target.id } });
+          await tx.deck.delete({ where: { id: source.id } });
+          return tx.deck.update({
+            where: { id: target.id },
+            data: {
+              // Merging isn't a use, so the merged deck was last used whenever either of them was
+              lastUsedAt: source.lastUsedAt > target.lastUsedAt ? source.lastUsedAt : target.lastUsedAt,
+              keyCards,
+              colors: normalizeColors([...targetProfile.colors, ...sourceProfile.colors]),
+              decklist: target.decklist ?? source.decklist ?? undefined,
+              aliases: { create: { workspaceKey, name: source.name } },
+            },
+            select: deckProfileSelect,
+          });
+        });
+        return toDeckProfile(deck);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to merge decks:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to merge decks",
+          cause: error,
+        });
+      }
+    }),
+
+  // Undoes a deck's last use, e.g. after a thumbnail was published by mistake. Each call steps back
+  // one more published use.
+  rollbackUsage: editorProcedure
+    .input(z.object({ name: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const deck = await rollbackDeckUsage(ctx.db, ctx.workspace.key, input.name, { beforeLastUse: true });
+        if (!deck) {
+          throw new TRPCError({ code: "NOT_FOUND", message: `Deck "${input.name}" not found` });
+        }
+        return toDeckProfile(deck);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to roll back deck usage:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to roll back deck usage",
+          cause: error,
+        });
+      }
+    }),
+
+  delete: editorProcedure
+    .input(z.object({ name: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await ctx.db.deck.delete({ where: deckNameWhere(ctx.workspace.key, input.name) });
+        return { name: input.name };
       } catch (error) {
-        console.error("Failed to save or update deck name:", error);
+        console.error("Failed to delete deck:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
-          message: "Failed to save or update deck name",
+          message: "Failed to delete deck",
           cause: error,
         });
       }
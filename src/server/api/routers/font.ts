@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { createTRPCRouter, editorProcedure, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { listFonts } from "~/server/fonts";
+
+// Uploads go through POST /api/fonts, since font files are binary
+export const fontRouter = createTRPCRouter({
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await listFonts(ctx.db);
+      } catch (error) {
+        console.error("Failed to list fonts:", error);
+        return [];
+      }
+    }),
+
+  delete: editorProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await ctx.db.font.delete({ where: { id: input.id } });
+        return { id: input.id };
+      } catch (error) {
+        console.error("Failed to delete font:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete font",
+          cause: error,
+        });
+      }
+    }),
+});
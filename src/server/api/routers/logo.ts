@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { createTRPCRouter, editorProcedure, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { BUILT_IN_LOGOS, logoNameSchema, logoPlacementSchema } from "~/lib/logos";
+import { listLogos, updateLogo } from "~/server/logos";
+
+// Uploads go through POST /api/logos, since logo images are binary. Built-in logos can't be changed.
+export const logoRouter = createTRPCRouter({
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await listLogos(ctx.db, ctx.workspace.key);
+      } catch (error) {
+        console.error("Failed to list logos:", error);
+        return BUILT_IN_LOGOS;
+      }
+    }),
+
+  update: editorProcedure
+    .input(z.object({
+      id: z.string(),
+      name: logoNameSchema.optional(),
+      placement: logoPlacementSchema.optional(),
+    }))
+    .mutation(async ({ input: { id, ...update }, ctx }) => {
+      try {
+        return await updateLogo(ctx.db, ctx.workspace.key, id, update);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to update logo:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to update logo",
+          cause: error,
+        });
+      }
+    }),
+
+  delete: editorProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await ctx.db.logo.deleteMany({ where: { id: input.id, workspaceKey: ctx.workspace.key } });
+        return { id: input.id };
+      } catch (error) {
+        console.error("Failed to delete logo:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete logo",
+          cause: error,
+        });
+      }
+    }),
+});
@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { createTRPCRouter, editorProcedure, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { type PrismaClient } from "@prisma/client";
+import { projectSnapshotSchema } from "~/lib/project";
+
+const projectIdInput = z.object({ id: z.string() });
+
+const findProjectOrThrow = async (db: PrismaClient, workspaceKey: string, id: string) => {
+  const project = await db.thumbnailProject.findFirst({ where: { id, workspaceKey } });
+  if (!project) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+  }
+
+  const state = projectSnapshotSchema.safeParse(project.state);
+  if (!state.success) {
+    console.error(`Project ${project.id} has an unreadable state:`, state.error);
+    throw new TRPCError({
+      code: "UNPROCESSABLE_CONTENT",
+      message: "Project data could not be read",
+    });
+  }
+
+  return {
+    id: project.id,
+    name: project.name,
+    updatedAt: project.updatedAt,
+    state: state.data,
+  };
+};
+
+export const projectRouter = createTRPCRouter({
+  save: editorProcedure
+    .input(z.object({
+      id: z.string().optional(),
+      name: z.string().min(1).max(100),
+      state: projectSnapshotSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (input.id) {
+          const { count } = await ctx.db.thumbnailProject.updateMany({
+            where: { id: input.id, workspaceKey: ctx.workspace.key },
+            data: { name: input.name, state: input.state },
+          });
+          if (count === 0) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+          }
+          return await ctx.db.thumbnailProject.findUniqueOrThrow({
+            where: { id: input.id },
+            select: { id: true, name: true, updatedAt: true },
+          });
+        }
+        return await ctx.db.thumbnailProject.create({
+          data: { workspaceKey: ctx.workspace.key, name: input.name, state: input.state },
+          select: { id: true, name: true, updatedAt: true },
+        });
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to save project:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save project",
+          cause: error,
+        });
+      }
+    }),
+
+  load: protectedProcedure
+    .input(projectIdInput)
+    .query(async ({ input, ctx }) => findProjectOrThrow(ctx.db, ctx.workspace.key, input.id)),
+
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await ctx.db.thumbnailProject.findMany({
+          where: { workspaceKey: ctx.workspace.key },
+          select: { id: true, name: true, updatedAt: true },
+          orderBy: { updatedAt: "desc" },
+          take: 50,
+        });
+      } catch (error) {
+        console.error("Failed to list projects:", error);
+        return [];
+      }
+    }),
+
+  duplicate: editorProcedure
+    .input(projectIdInput)
+    .mutation(async ({ input, ctx }) => {
+      const project = await findProjectOrThrow(ctx.db, ctx.workspace.key, input.id);
+
+      try {
+        return await ctx.db.thumbnailProject.create({
+          data: {
+            workspaceKey: ctx.workspace.key,
+            name: `${project.name} (copy)`.slice(0, 100),
+            state: project.state,
+          },
+          select: { id: true, name: true, updatedAt: true },
+        });
+      } catch (error) {
+        console.error("Failed to duplicate project:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to duplicate project",
+          cause: error,
+        });
+      }
+    }),
+
+  delete: editorProcedure
+    .input(projectIdInput)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await ctx.db.thumbnailProject.deleteMany({ where: { id: input.id, workspaceKey: ctx.workspace.key } });
+        return { id: input.id };
+      } catch (error) {
+        console.error("Failed to delete project:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete project",
+          cause: error,
+        });
+      }
+    }),
+});
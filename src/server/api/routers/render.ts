@@ -0,0 +1,22 @@
+import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { renderThumbnailPng, resolveRenderTemplate, thumbnailRenderInputSchema } from "~/server/render/thumbnail";
+
+export const renderRouter = createTRPCRouter({
+  renderThumbnail: protectedProcedure
+    .input(thumbnailRenderInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const png = await renderThumbnailPng(ctx.db, ctx.workspace.key, input, await resolveRenderTemplate(ctx.db, input));
+        return `data:image/png;base64,${png.toString("base64")}`;
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to render thumbnail:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to render thumbnail",
+          cause: error,
+        });
+      }
+    }),
+});
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { createTRPCRouter, editorProcedure, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { BUILT_IN_TEMPLATES, templateDefinitionSchema } from "~/lib/template";
+import { listTemplates } from "~/server/templates";
+
+export const templateRouter = createTRPCRouter({
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await listTemplates(ctx.db);
+      } catch (error) {
+        console.error("Failed to list templates:", error);
+        return BUILT_IN_TEMPLATES;
+      }
+    }),
+
+  save: editorProcedure
+    .input(z.object({
+      key: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/, "Key must be lowercase letters, numbers and dashes"),
+      name: z.string().min(1).max(100),
+      definition: templateDefinitionSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await ctx.db.thumbnailTemplate.upsert({
+          where: { key: input.key },
+          update: { name: input.name, definition: input.definition },
+          create: { key: input.key, name: input.name, definition: input.definition },
+          select: { key: true, name: true, updatedAt: true },
+        });
+      } catch (error) {
+        console.error("Failed to save template:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save template",
+          cause: error,
+        });
+      }
+    }),
+
+  delete: editorProcedure
+    .input(z.object({ key: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await ctx.db.thumbnailTemplate.delete({ where: { key: input.key } });
+        return { key: input.key };
+      } catch (error) {
+        console.error("Failed to delete template:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete template",
+          cause: error,
+        });
+      }
+    }),
+});
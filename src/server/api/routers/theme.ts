@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { createTRPCRouter, editorProcedure, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { BUILT_IN_THEMES, themeDefinitionSchema } from "~/lib/themes";
+import { listThemes } from "~/server/themes";
+
+export const themeRouter = createTRPCRouter({
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await listThemes(ctx.db, ctx.workspace.key);
+      } catch (error) {
+        console.error("Failed to list themes:", error);
+        return BUILT_IN_THEMES;
+      }
+    }),
+
+  save: editorProcedure
+    .input(z.object({
+      key: z.string().min(1).max(50).regex(/^[a-z0-9-]+$/, "Key must be lowercase letters, numbers and dashes"),
+      name: z.string().min(1).max(100),
+      definition: themeDefinitionSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await ctx.db.thumbnailTheme.upsert({
+          where: { workspaceKey_key: { workspaceKey: ctx.workspace.key, key: input.key } },
+          update: { name: input.name, definition: input.definition },
+          create: { workspaceKey: ctx.workspace.key, key: input.key, name: input.name, definition: input.definition },
+          select: { key: true, name: true, updatedAt: true },
+        });
+      } catch (error) {
+        console.error("Failed to save theme:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save theme",
+          cause: error,
+        });
+      }
+    }),
+
+  delete: editorProcedure
+    .input(z.object({ key: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        await ctx.db.thumbnailTheme.delete({ where: { workspaceKey_key: { workspaceKey: ctx.workspace.key, key: input.key } } });
+        return { key: input.key };
+      } catch (error) {
+        console.error("Failed to delete theme:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete theme",
+          cause: error,
+        });
+      }
+    }),
+});
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { createTRPCRouter, editorProcedure, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { thumbnailDraftSchema } from "~/lib/publishing";
+import { publishThumbnail, saveThumbnailDraft, unpublishThumbnail } from "~/server/thumbnails";
+
+const RECENT_LIMIT = 50;
+
+const thumbnailSummarySelect = {
+  id: true,
+  title: true,
+  templateName: true,
+  leftDeckName: true,
+  rightDeckName: true,
+  status: true,
+  publishedAt: true,
+  updatedAt: true,
+} as const;
+
+export const thumbnailRouter = createTRPCRouter({
+  // Called on every export; nothing counts as used until the thumbnail is published
+  saveDraft: editorProcedure
+    .input(thumbnailDraftSchema)
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await saveThumbnailDraft(ctx.db, ctx.workspace.key, input);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to save thumbnail draft:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save thumbnail draft",
+          cause: error,
+        });
+      }
+    }),
+
+  publish: editorProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await publishThumbnail(ctx.db, ctx.workspace.key, input.id);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to publish thumbnail:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to publish thumbnail",
+          cause: error,
+        });
+      }
+    }),
+
+  unpublish: editorProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await unpublishThumbnail(ctx.db, ctx.workspace.key, input.id);
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to unpublish thumbnail:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to unpublish thumbnail",
+          cause: error,
+        });
+      }
+    }),
+
+  // The workspace's recently exported thumbnails, drafts and published, newest first
+  list: protectedProcedure
+    .input(z.object({ status: z.enum(["draft", "published"]).optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        return await ctx.db.thumbnail.findMany({
+          where: { workspaceKey: ctx.workspace.key, status: input?.status },
+          orderBy: { updatedAt: "desc" },
+          take: RECENT_LIMIT,
+          select: thumbnailSummarySelect,
+        });
+      } catch (error) {
+        console.error("Failed to list thumbnails:", error);
+        return [];
+      }
+    }),
+});
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { BUILT_IN_WORKSPACES, workspaceKeySchema, workspaceNameSchema } from "~/lib/workspaces";
+import { isWorkspaceInUse, listWorkspaces } from "~/server/workspaces";
+
+// The current workspace is picked with a cookie (see WORKSPACE_COOKIE), so switching needs no mutation
+export const workspaceRouter = createTRPCRouter({
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await listWorkspaces(ctx.db);
+      } catch (error) {
+        console.error("Failed to list workspaces:", error);
+        return BUILT_IN_WORKSPACES;
+      }
+    }),
+
+  current: protectedProcedure
+    .query(({ ctx }) => ctx.workspace),
+
+  // Creates a workspace, or renames one. Renaming a built-in stores it under the same key.
+  save: adminProcedure
+    .input(z.object({ key: workspaceKeySchema, name: workspaceNameSchema }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await ctx.db.workspace.upsert({
+          where: { key: input.key },
+          update: { name: input.name },
+          create: { key: input.key, name: input.name },
+          select: { key: true, name: true },
+        });
+      } catch (error) {
+        console.error("Failed to save workspace:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to save workspace",
+          cause: error,
+        });
+      }
+    }),
+
+  // Only empty workspaces can go. For a renamed built-in this just restores its name.
+  delete: adminProcedure
+    .input(z.object({ key: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const isBuiltIn = BUILT_IN_WORKSPACES.some((workspace) => workspace.key === input.key);
+
+      try {
+        if (!isBuiltIn && (await isWorkspaceInUse(ctx.db, input.key))) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "The workspace still has decks, usage history, projects, thumbnails, logos or themes",
+          });
+        }
+        await ctx.db.workspace.deleteMany({ where: { key: input.key } });
+        return { key: input.key };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Failed to delete workspace:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to delete workspace",
+          cause: error,
+        });
+      }
+    }),
+});
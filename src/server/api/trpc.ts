@@ -10,7 +10,11 @@ import { initTRPC } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import { type UserRole } from "~/lib/auth";
+import { assertRole, getRequestUser } from "~/server/auth";
 import { db } from "~/server/db";
+import { getScryfallQueueStats } from "~/server/scryfallQueue";
+import { getRequestWorkspace } from "~/server/workspaces";
 
 /**
  * 1. CONTEXT
@@ -25,8 +29,15 @@ import { db } from "~/server/db";
  * @see https://trpc.io/docs/server/context
  */
 export const createTRPCContext = async (opts: { headers: Headers }) => {
+  // The signed-in user from the session cookie, or null
+  const user = await getRequestUser(db, opts.headers);
+  // The workspace picked with the switcher; decks, usage, logos, themes and projects are scoped to it
+  const workspace = await getRequestWorkspace(db, opts.headers);
+
   return {
     db,
+    user,
+    workspace,
     ...opts,
   };
 };
@@ -78,6 +89,9 @@ export const createTRPCRouter = t.router;
  *
  * You can remove this if you don't like it, but it can help catch unwanted waterfalls by simulating
  * network latency that would occur in production but not in local development.
+ *
+ * The log line includes the Scryfall request queue depth, so slow procedures can be told apart from
+ * ones that were just waiting their turn behind the rate limiter.
  */
 const timingMiddleware = t.middleware(async ({ next, path }) => {
   const start = Date.now();
@@ -91,7 +105,11 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
   const result = await next();
 
   const end = Date.now();
-  console.log(`[TRPC] ${path} took ${end - start}ms to execute`);
+  const scryfallQueue = getScryfallQueueStats();
+  console.log(
+    `[TRPC] ${path} took ${end - start}ms to execute ` +
+    `(Scryfall queue: ${scryfallQueue.queued} waiting, ${scryfallQueue.inFlight} in flight)`
+  );
 
   return result;
 });
@@ -104,3 +122,24 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  * are logged in.
  */
 export const publicProcedure = t.procedure.use(timingMiddleware);
+
+// Rejects callers below the given role, and narrows `ctx.user` for the procedures that use it
+const requireRole = (role: UserRole) =>
+  t.middleware(({ ctx, next }) => {
+    assertRole(ctx.user, role);
+    return next({ ctx: { ...ctx, user: ctx.user } });
+  });
+
+/**
+ * Protected (authenticated) procedure
+ *
+ * Needs a signed-in user of any role, who is available as `ctx.user`. Used for reads, so viewers
+ * can browse and download but not change anything.
+ */
+export const protectedProcedure = publicProcedure.use(requireRole("viewer"));
+
+// Needs the editor role; used for everything that changes shared data
+export const editorProcedure = publicProcedure.use(requireRole("editor"));
+
+// Needs the admin role; used for managing accounts and workspaces
+export const adminProcedure = publicProcedure.use(requireRole("admin"));
@@ -0,0 +1,91 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+import { type CardArt } from "~/lib/cardArt";
+
+// Weights add up to 1. Freshness outweighs the rest combined, so an art that has never been used
+// always ranks above one that has, whatever its resolution or shape.
+const FRESHNESS_WEIGHT = 0.75;
+const RESOLUTION_WEIGHT = 0.15;
+const FIT_WEIGHT = 0.1;
+// Used arts top out at this freshness, approaching it as the channel moves on to other arts; they
+// get halfway there once this many other arts have been used since
+const USED_FRESHNESS_MAX = 0.5;
+const USES_SINCE_HALFWAY = 50;
+
+// Scryfall's art crops come in roughly two shapes: the art box of a regular frame, and the much
+// taller art of borderless and full-art cards. Close enough to tell the two apart for ranking.
+const REGULAR_ART_ASPECT_RATIO = 626 / 457;
+const TALL_ART_ASPECT_RATIO = 0.85;
+const DEFAULT_SLOT_ASPECT_RATIO = 16 / 9;
+
+const RESOLUTION_SCORES: Record<string, number> = {
+  highres_scan: 1,
+  lowres: 0.5,
+  placeholder: 0,
+  missing: 0,
+};
+
+const getArtAspectRatio = (art: CardArt) =>
+  art.fullArt || art.borderColor === "borderless" ? TALL_ART_ASPECT_RATIO : REGULAR_ART_ASPECT_RATIO;
+
+export interface RankOptions {
+  aspectRatio?: number; // Width / height of the slot the art is for
+}
+
+/**
+ * Sorts arts best first and fills in their `score` (0-1). Arts the channel has never used come
+ * first, then the ones it has gone longest without, measured in how many other arts have been used
+ * since rather than by date, so a burst of thumbnails counts as much as a quiet month. Resolution
+ * and how well the art fills the slot break ties and nudge the order among used arts.
+ *
+ * Usage is the workspace's own, or every workspace's when `usageWorkspaceKey` is null.
+ */
+export async function rankCardArts<T extends CardArt>(
+  db: PrismaClient,
+  usageWorkspaceKey: string | null,
+  arts: T[],
+  { aspectRatio = DEFAULT_SLOT_ASPECT_RATIO }: RankOptions = {}
+): Promise<T[]> {
+  if (arts.length === 0) return [];
+
+  // One pass over the usage: each art's newest use, ranked by how many uses came after it. RANK()
+  // gives uses at the same moment the same rank, so only strictly later uses count.
+  const scope = usageWorkspaceKey === null ? Prisma.empty : Prisma.sql`WHERE "workspaceKey" = ${usageWorkspaceKey}`;
+  const usages = await db.$queryRaw<{ scryfallArtUrl: string; usesSince: bigint }[]>`
+    SELECT "scryfallArtUrl", "usesSince"
+    FROM (
+      SELECT
+        "scryfallArtUrl",
+        RANK() OVER (ORDER BY "lastUsedAt" DESC) - 1 AS "usesSince",
+        ROW_NUMBER() OVER (PARTITION BY "scryfallArtUrl" ORDER BY "lastUsedAt" DESC) AS "newest"
+      FROM "CardArtUsage"
+      ${scope}
+    ) AS "ranked"
+    WHERE "newest" = 1 AND "scryfallArtUrl" IN (${Prisma.join(arts.map((art) => art.artUrl))})
+  `;
+  const usesSinceByUrl = new Map(usages.map((usage) => [usage.scryfallArtUrl, Number(usage.usesSince)]));
+
+  const scored = arts.map((art) => {
+    const uses = usesSinceByUrl.get(art.artUrl);
+    const freshness = uses === undefined ? 1 : USED_FRESHNESS_MAX * (uses / (uses + USES_SINCE_HALFWAY));
+    const resolution = RESOLUTION_SCORES[art.imageStatus ?? ""] ?? 0.5;
+    const artAspectRatio = getArtAspectRatio(art);
+    const fit = Math.min(artAspectRatio, aspectRatio) / Math.max(artAspectRatio, aspectRatio);
+    const score = FRESHNESS_WEIGHT * freshness + RESOLUTION_WEIGHT * resolution + FIT_WEIGHT * fit;
+    return { ...art, score };
+  });
+
+  // Stable, so equal scores keep Scryfall's order
+  return scored.sort((a, b) => b.score - a.score);
+}
+
+// The top-ranked art, for flows that pick one without asking
+export async function pickRecommendedArt<T extends CardArt>(
+  db: PrismaClient,
+  usageWorkspaceKey: string | null,
+  arts: T[],
+  options?: RankOptions
+) {
+  const [best] = await rankCardArts(db, usageWorkspaceKey, arts, options);
+  return best ?? null;
+}
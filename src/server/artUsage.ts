@@ -0,0 +1,101 @@
+import { type CardArtUsage, type Prisma, type PrismaClient } from "@prisma/client";
+
+import { type CardCrop } from "~/lib/thumbnail";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export interface ArtUsageInput {
+  scryfallCardId: string;
+  scryfallArtUrl: string;
+  crop?: CardCrop | null;
+  cardName?: string;
+  slot?: string;
+  thumbnailId?: string;
+}
+
+const toCropColumns = (crop: CardCrop | null | undefined) => ({
+  cropFocusX: crop?.focusX ?? null,
+  cropFocusY: crop?.focusY ?? null,
+  cropZoom: crop?.zoom ?? null,
+});
+
+/**
+ * Marks an art as used now in a workspace, remembering the framing it was used with, and logs the
+ * use. Both writes go in one transaction, the caller's if it's already in one, so undo never
+ * finds an event without a usage row or the other way round.
+ */
+export async function recordArtUsage(db: DbClient, workspaceKey: string, input: ArtUsageInput): Promise<CardArtUsage> {
+  if ("$transaction" in db) {
+    return db.$transaction((tx) => recordArtUsage(tx, workspaceKey, input));
+  }
+  const crop = toCropColumns(input.crop);
+
+  await db.artUsageEvent.create({
+    data: {
+      workspaceKey,
+      scryfallCardId: input.scryfallCardId,
+      scryfallArtUrl: input.scryfallArtUrl,
+      cardName: input.cardName,
+      slot: input.slot,
+      thumbnailId: input.thumbnailId,
+      ...crop,
+    },
+  });
+
+  return db.cardArtUsage.upsert({
+    where: { workspaceKey_scryfallArtUrl: { workspaceKey, scryfallArtUrl: input.scryfallArtUrl } },
+    update: {
+      scryfallCardId: input.scryfallCardId,
+      ...crop,
+      lastUsedAt: new Date(),
+    },
+    create: {
+      workspaceKey,
+      scryfallCardId: input.scryfallCardId,
+      scryfallArtUrl: input.scryfallArtUrl,
+      ...crop,
+    },
+  });
+}
+
+/**
+ * Reverts logged uses matching `where`. The events are marked reverted rather than deleted, and
+ * each art's latest use in their workspace falls back to its newest use there that still stands,
+ * or is cleared if there is none. Returns how many uses were reverted.
+ */
+export async function undoArtUsage(db: DbClient, where: Prisma.ArtUsageEventWhereInput) {
+  const events = await db.artUsageEvent.findMany({
+    where: { ...where, revertedAt: null },
+    select: { id: true, workspaceKey: true, scryfallArtUrl: true },
+  });
+  if (events.length === 0) return 0;
+
+  await db.artUsageEvent.updateMany({
+    where: { id: { in: events.map((event) => event.id) } },
+    data: { revertedAt: new Date() },
+  });
+
+  const arts = new Map(events.map((event) => [`${event.workspaceKey} ${event.scryfallArtUrl}`, event]));
+  for (const { workspaceKey, scryfallArtUrl } of arts.values()) {
+    const previous = await db.artUsageEvent.findFirst({
+      where: { workspaceKey, scryfallArtUrl, revertedAt: null },
+      orderBy: { usedAt: "desc" },
+    });
+    if (!previous) {
+      await db.cardArtUsage.deleteMany({ where: { workspaceKey, scryfallArtUrl } });
+      continue;
+    }
+    await db.cardArtUsage.updateMany({
+      where: { workspaceKey, scryfallArtUrl },
+      data: {
+        scryfallCardId: previous.scryfallCardId,
+        cropFocusX: previous.cropFocusX,
+        cropFocusY: previous.cropFocusY,
+        cropZoom: previous.cropZoom,
+        lastUsedAt: previous.usedAt,
+      },
+    });
+  }
+
+  return events.length;
+}
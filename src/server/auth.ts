@@ -0,0 +1,155 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { env } from "~/env";
+import { type Credentials, SESSION_COOKIE, type SessionUser, type UserRole, USER_ROLES, hasRole } from "~/lib/auth";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+
+export const sessionUserSelect = { id: true, username: true, role: true } as const;
+
+const toSessionUser = (user: { id: string; username: string; role: string }): SessionUser => ({
+  ...user,
+  role: USER_ROLES.find((role) => role === user.role) ?? "viewer",
+});
+
+// "scrypt:<salt>:<hash>", both hex
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, passwordHash: string) {
+  const [scheme, salt, hash] = passwordHash.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Checked against when the username doesn't exist, so a miss takes as long as a wrong password
+const DUMMY_PASSWORD_HASH =
+  "scrypt:00000000000000000000000000000000:56d35c2a6281bc68c647262796154a7a573700c3bc721b00922e717627ab3a9cba50d6ce3a0cdf3547100ec286af85d6f948c363efcf83045ac2729c07fc852e";
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export async function createUser(db: PrismaClient, { username, password }: Credentials, role: UserRole) {
+  const existing = await db.user.findUnique({ where: { username }, select: { id: true } });
+  if (existing) {
+    throw new TRPCError({ code: "CONFLICT", message: `The username "${username}" is taken` });
+  }
+  const user = await db.user.create({
+    data: { username, passwordHash: await hashPassword(password), role },
+    select: sessionUserSelect,
+  });
+  return toSessionUser(user);
+}
+
+/**
+ * Creates the first account, as an admin. Counting and creating share a serializable transaction,
+ * so of two setups racing only one commits; the other gets FORBIDDEN like any setup after the first.
+ */
+export async function createFirstAdmin(db: PrismaClient, { username, password }: Credentials) {
+  const alreadyDone = new TRPCError({ code: "FORBIDDEN", message: "Setup is already done; sign in instead" });
+  const passwordHash = await hashPassword(password);
+
+  try {
+    const user = await db.$transaction(
+      async (tx) => {
+        if ((await tx.user.count()) > 0) throw alreadyDone;
+        return tx.user.create({ data: { username, passwordHash, role: "admin" }, select: sessionUserSelect });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+    return toSessionUser(user);
+  } catch (error) {
+    // P2034 is a serialization failure, P2002 the other setup's user taking the same username first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && (error.code === "P2034" || error.code === "P2002")) {
+      throw alreadyDone;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks a username and password. Throws UNAUTHORIZED with the same message, after the same
+ * password check, whether the user is missing or the password is wrong, so sign-in doesn't reveal
+ * which usernames exist.
+ */
+export async function authenticate(db: PrismaClient, { username, password }: Credentials) {
+  const user = await db.user.findUnique({ where: { username }, select: { ...sessionUserSelect, passwordHash: true } });
+  const isPasswordCorrect = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  if (!user || !isPasswordCorrect) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Wrong username or password" });
+  }
+  return toSessionUser(user);
+}
+
+export async function createSession(db: PrismaClient, userId: string) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000);
+  await db.session.create({ data: { tokenHash: hashToken(token), userId, expiresAt } });
+  return { token, expiresAt };
+}
+
+export async function deleteSession(db: PrismaClient, token: string) {
+  await db.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+// Options for the session cookie set by sign-in and cleared by sign-out
+export const getSessionCookieOptions = (expiresAt: Date) => ({
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: env.NODE_ENV === "production",
+  path: "/",
+  expires: expiresAt,
+});
+
+export const getRequestCookie = (headers: Headers, cookieName: string) => {
+  const cookies = headers.get("cookie")?.split(";") ?? [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === cookieName) return decodeURIComponent(value.join("="));
+  }
+  return null;
+};
+
+export const getSessionToken = (headers: Headers) => getRequestCookie(headers, SESSION_COOKIE);
+
+// The signed-in user for a request, or null for anonymous and expired sessions
+export async function getRequestUser(db: PrismaClient, headers: Headers): Promise<SessionUser | null> {
+  const token = getSessionToken(headers);
+  if (!token) return null;
+  const session = await db.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { expiresAt: true, user: { select: sessionUserSelect } },
+  });
+  if (!session || session.expiresAt < new Date()) return null;
+  return toSessionUser(session.user);
+}
+
+/**
+ * Throws UNAUTHORIZED when nobody is signed in and FORBIDDEN when the user's role is too low.
+ * Shared by the tRPC procedures and the plain HTTP routes.
+ */
+export function assertRole(user: SessionUser | null, required: UserRole): asserts user is SessionUser {
+  if (!user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Sign in to continue" });
+  }
+  if (!hasRole(user.role, required)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `This needs the ${required} role` });
+  }
+}
+
+// For plain HTTP routes: the signed-in user, if their role is high enough
+export async function requireRequestUser(db: PrismaClient, headers: Headers, required: UserRole) {
+  const user = await getRequestUser(db, headers);
+  assertRole(user, required);
+  return user;
+}
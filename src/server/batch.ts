@@ -0,0 +1,137 @@
+import { type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import JSZip from "jszip";
+
+import { type BatchMatch, type BatchRequest } from "~/lib/batch";
+import { type TemplateDefinition, type ThumbnailTemplate, getArtSlots } from "~/lib/template";
+import { getThumbnailFileName, getThumbnailTitle } from "~/lib/thumbnail";
+import { pickRecommendedArt } from "~/server/artRanking";
+import { renderThumbnailPng, thumbnailRenderInputSchema } from "~/server/render/thumbnail";
+import { type CardArt, searchCardArts } from "~/server/scryfall";
+import { publishThumbnail, saveThumbnailDraft } from "~/server/thumbnails";
+
+// Saving and publishing up to 50 matches takes well over Prisma's default 5 seconds
+const SAVE_TIMEOUT_MS = 60_000;
+
+interface ResolvedMatch {
+  match: BatchMatch;
+  arts: Record<string, CardArt>;
+}
+
+/**
+ * Picks an art for every card in every match, throwing BAD_REQUEST for the first card that
+ * can't be found or names a slot the template doesn't have, so nothing is rendered from a
+ * half-resolved list. Arts already picked earlier
+ * in the batch are skipped while the card has others left, so repeated cards don't look the same.
+ */
+async function resolveMatchArts(db: PrismaClient, workspaceKey: string, template: TemplateDefinition, matches: BatchMatch[]) {
+  const slots = getArtSlots(template);
+  const usedInBatch = new Set<string>();
+  const resolved: ResolvedMatch[] = [];
+
+  for (const [index, match] of matches.entries()) {
+    const unknownSlot = Object.keys(match.cards).find((slot) => !slots.some((artSlot) => artSlot.slot === slot));
+    if (unknownSlot) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: `Match ${index + 1}: the template has no "${unknownSlot}" slot` });
+    }
+
+    const arts: Record<string, CardArt> = {};
+    for (const { slot, aspectRatio } of slots) {
+      const card = match.cards[slot];
+      if (!card) continue;
+
+      const printings = (await searchCardArts(card.name)).filter((art) => !card.set || art.set === card.set);
+      const unused = printings.filter((art) => !usedInBatch.has(art.artUrl));
+      const art = await pickRecommendedArt(db, workspaceKey, unused.length > 0 ? unused : printings, { aspectRatio });
+      if (!art) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Match ${index + 1}: no art found for "${card.name}"${card.set ? ` in set ${card.set}` : ""}`,
+        });
+      }
+
+      usedInBatch.add(art.artUrl);
+      arts[slot] = art;
+    }
+    resolved.push({ match, arts });
+  }
+
+  return resolved;
+}
+
+const getTextValues = (match: BatchMatch, request: BatchRequest) => ({
+  leftDeckName: match.leftDeckName,
+  rightDeckName: match.rightDeckName,
+  streamDate: request.streamDate ?? "",
+  eventName: request.eventName ?? "",
+  bottomText: request.bottomText ?? "",
+});
+
+// Appends -2, -3, ... to names already in the archive
+const uniqueFileName = (fileName: string, taken: Set<string>) => {
+  let candidate = fileName;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = fileName.replace(/(\.\w+)$/, `-${n}$1`);
+  }
+  taken.add(candidate);
+  return candidate;
+};
+
+/**
+ * Renders a thumbnail per match and returns them as a ZIP. Arts default to the printing
+ * recommended for the workspace, and every thumbnail is saved as a draft there once the archive is
+ * built, the same as downloading each thumbnail from the editor. With `publish` set they're
+ * published right away. Either every thumbnail is saved or none are.
+ */
+export async function renderBatchZip(
+  db: PrismaClient,
+  workspaceKey: string,
+  thumbnailTemplate: ThumbnailTemplate,
+  request: BatchRequest
+) {
+  const template = thumbnailTemplate.definition;
+  const resolved = await resolveMatchArts(db, workspaceKey, template, request.matches);
+
+  const zip = new JSZip();
+  const fileNames = new Set<string>();
+  for (const { match, arts } of resolved) {
+    const input = thumbnailRenderInputSchema.parse({
+      leftDeckName: match.leftDeckName,
+      rightDeckName: match.rightDeckName,
+      streamDate: request.streamDate,
+      eventName: request.eventName,
+      bottomText: request.bottomText,
+      themeKey: request.themeKey,
+      artUrls: Object.fromEntries(Object.entries(arts).map(([slot, art]) => [slot, art.artUrl])),
+    });
+    const png = await renderThumbnailPng(db, workspaceKey, input, template);
+    const fileName = getThumbnailFileName(template.fileName, getTextValues(match, request));
+    zip.file(uniqueFileName(fileName, fileNames), png);
+  }
+  const archive = await zip.generateAsync({ type: "nodebuffer" });
+
+  // One transaction, so a publish failing partway leaves nothing published to double count on retry
+  await db.$transaction(
+    async (tx) => {
+      for (const { match, arts } of resolved) {
+        const draft = await saveThumbnailDraft(tx, workspaceKey, {
+          title: getThumbnailTitle(template.fileName, getTextValues(match, request)),
+          templateKey: thumbnailTemplate.key,
+          templateName: thumbnailTemplate.name,
+          leftDeckName: match.leftDeckName,
+          rightDeckName: match.rightDeckName,
+          cards: Object.entries(arts).map(([slot, art]) => ({
+            slot,
+            cardName: match.cards[slot]?.name ?? "",
+            scryfallCardId: art.scryfallPrintId,
+            scryfallArtUrl: art.artUrl,
+          })),
+        });
+        if (request.publish) await publishThumbnail(tx, workspaceKey, draft.id);
+      }
+    },
+    { timeout: SAVE_TIMEOUT_MS }
+  );
+
+  return archive;
+}
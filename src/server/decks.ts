@@ -0,0 +1,112 @@
+import { type Prisma, type PrismaClient } from "@prisma/client";
+
+import { type DeckColor, DECK_COLORS, deckKeyCardsSchema } from "~/lib/deckProfile";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export const deckProfileSelect = {
+  id: true,
+  name: true,
+  colors: true,
+  keyCards: true,
+  lastUsedAt: true,
+  aliases: { select: { name: true }, orderBy: { name: "asc" } },
+} satisfies Prisma.DeckSelect;
+
+type DeckProfileRow = Prisma.DeckGetPayload<{ select: typeof deckProfileSelect }>;
+
+// Flattens a deck row into its profile, dropping key cards whose stored JSON no longer validates
+export const toDeckProfile = (deck: DeckProfileRow) => {
+  const keyCards = deckKeyCardsSchema.safeParse(deck.keyCards ?? []);
+  if (!keyCards.success) {
+    console.error(`Deck "${deck.name}" has invalid key cards:`, keyCards.error);
+  }
+  return {
+    id: deck.id,
+    name: deck.name,
+    lastUsedAt: deck.lastUsedAt,
+    colors: deck.colors.filter((color): color is DeckColor => (DECK_COLORS as readonly string[]).includes(color)),
+    aliases: deck.aliases.map((alias) => alias.name),
+    keyCards: keyCards.success ? keyCards.data : [],
+  };
+};
+
+export type DeckProfileWithName = ReturnType<typeof toDeckProfile>;
+
+// Unique lookup for a deck by its exact name within a workspace
+export const deckNameWhere = (workspaceKey: string, name: string) => ({ workspaceKey_name: { workspaceKey, name } });
+
+/**
+ * Finds a workspace's deck by its name or one of its aliases, ignoring case. Exact name matches
+ * win over aliases.
+ */
+export async function findDeckByNameOrAlias(db: DbClient, workspaceKey: string, name: string) {
+  const byName = await db.deck.findFirst({
+    where: { workspaceKey, name: { equals: name, mode: "insensitive" } },
+    select: deckProfileSelect,
+  });
+  if (byName) return byName;
+
+  const alias = await db.deckAlias.findFirst({
+    where: { workspaceKey, name: { equals: name, mode: "insensitive" } },
+    select: { deck: { select: deckProfileSelect } },
+  });
+  return alias?.deck ?? null;
+}
+
+/**
+ * Names already taken by another deck in the workspace, either as its name or one of its aliases.
+ * Names are compared ignoring case so "rw energy" can't sneak in next to "RW Energy".
+ */
+export async function findConflictingDeckNames(db: DbClient, workspaceKey: string, names: string[], deckId?: string) {
+  if (names.length === 0) return [];
+
+  const insensitive = names.map((name) => ({ name: { equals: name, mode: "insensitive" as const } }));
+  const [decks, aliases] = await Promise.all([
+    db.deck.findMany({ where: { workspaceKey, OR: insensitive, NOT: deckId ? { id: deckId } : undefined }, select: { name: true } }),
+    db.deckAlias.findMany({ where: { workspaceKey, OR: insensitive, NOT: deckId ? { deckId } : undefined }, select: { name: true } }),
+  ]);
+  return [...decks, ...aliases].map(({ name }) => name);
+}
+
+/**
+ * Sets a deck's last use back to the newest thumbnail published with it in its workspace, under
+ * its name or any alias, or to when the deck was created if there isn't one. `name` may be an
+ * alias too. Returns null when no deck goes by that name.
+ *
+ * With `beforeLastUse` only thumbnails published before the current last use count, so the use
+ * being undone is skipped even while its thumbnail stays published.
+ */
+export async function rollbackDeckUsage(
+  db: DbClient,
+  workspaceKey: string,
+  name: string,
+  { beforeLastUse = false }: { beforeLastUse?: boolean } = {}
+) {
+  const deck = await findDeckByNameOrAlias(db, workspaceKey, name);
+  if (!deck) return null;
+
+  const matchesName = [deck.name, ...deck.aliases.map((alias) => alias.name)].flatMap((deckName) => {
+    const equals = { equals: deckName, mode: "insensitive" as const };
+    return [{ leftDeckName: equals }, { rightDeckName: equals }];
+  });
+  const [lastPublished, { createdAt }] = await Promise.all([
+    db.thumbnail.findFirst({
+      where: {
+        workspaceKey,
+        status: "published",
+        OR: matchesName,
+        publishedAt: beforeLastUse ? { lt: deck.lastUsedAt } : undefined,
+      },
+      orderBy: { publishedAt: "desc" },
+      select: { publishedAt: true },
+    }),
+    db.deck.findUniqueOrThrow({ where: { id: deck.id }, select: { createdAt: true } }),
+  ]);
+
+  return db.deck.update({
+    where: { id: deck.id },
+    data: { lastUsedAt: lastPublished?.publishedAt ?? createdAt },
+    select: deckProfileSelect,
+  });
+}
@@ -0,0 +1,103 @@
+import path from "node:path";
+import { mkdir, writeFile } from "node:fs/promises";
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { deregisterAllFonts, registerFont } from "canvas";
+
+import { env } from "~/env";
+import { FONT_CONTENT_TYPES, FONT_MAX_BYTES, type FontFaceDescriptor, type StoredFont } from "~/lib/fonts";
+
+const fontDir = path.resolve(process.cwd(), env.FONT_DIR);
+
+export const storedFontSelect = {
+  id: true,
+  family: true,
+  weight: true,
+  style: true,
+  fileName: true,
+  updatedAt: true,
+} as const;
+
+// sfnt (TrueType), OpenType with CFF outlines, Apple TrueType and WOFF
+const FONT_SIGNATURES = ["00010000", "4f54544f", "74727565", "774f4646"];
+
+const toStoredFont = ({ weight, style, ...font }: Prisma.FontGetPayload<{ select: typeof storedFontSelect }>): StoredFont => ({
+  ...font,
+  weight: weight === "bold" ? "bold" : "normal",
+  style: style === "italic" ? "italic" : "normal",
+});
+
+export async function listFonts(db: PrismaClient) {
+  const fonts = await db.font.findMany({ orderBy: [{ family: "asc" }, { weight: "asc" }], select: storedFontSelect });
+  return fonts.map(toStoredFont);
+}
+
+/**
+ * Stores an uploaded font file, replacing any earlier upload of the same family, weight and style.
+ * Throws BAD_REQUEST for files that are too large or aren't a font format both renderers can load.
+ */
+export async function saveFont(db: PrismaClient, face: FontFaceDescriptor, fileName: string, data: Buffer) {
+  const contentType = FONT_CONTENT_TYPES[path.extname(fileName).toLowerCase()];
+  if (!contentType) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Fonts must be ${Object.keys(FONT_CONTENT_TYPES).join(", ")} files` });
+  }
+  if (data.length > FONT_MAX_BYTES) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Fonts must be under ${FONT_MAX_BYTES / 1024 / 1024}MB` });
+  }
+  if (!FONT_SIGNATURES.includes(data.subarray(0, 4).toString("hex"))) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `"${fileName}" is not a font file` });
+  }
+
+  const font = await db.font.upsert({
+    where: { family_weight_style: face },
+    update: { fileName, contentType, data },
+    create: { ...face, fileName, contentType, data },
+    select: storedFontSelect,
+  });
+  return toStoredFont(font);
+}
+
+// Version of each face registered with node-canvas, keyed by family/weight/style
+const registered = new Map<string, string>();
+let registering: Promise<void> | null = null;
+
+const getFaceKey = (font: FontFaceDescriptor) => `${font.family}/${font.weight}/${font.style}`;
+const getVersion = (font: StoredFont) => `${font.id}-${font.updatedAt.getTime()}`;
+
+async function syncRegisteredFonts(db: PrismaClient) {
+  const fonts = await listFonts(db);
+  const versions = new Map(fonts.map((font) => [getFaceKey(font), getVersion(font)]));
+  const isCurrent =
+    versions.size === registered.size && [...versions].every(([key, version]) => registered.get(key) === version);
+  if (isCurrent) return;
+
+  // node-canvas can't drop a single font, so any replaced or deleted font means starting over
+  if ([...registered].some(([key, version]) => versions.get(key) !== version)) {
+    deregisterAllFonts();
+    registered.clear();
+  }
+
+  await mkdir(fontDir, { recursive: true });
+  for (const font of fonts) {
+    const key = getFaceKey(font);
+    if (registered.has(key)) continue;
+
+    const { data } = await db.font.findUniqueOrThrow({ where: { id: font.id }, select: { data: true } });
+    const filePath = path.join(fontDir, `${getVersion(font)}${path.extname(font.fileName).toLowerCase()}`);
+    await writeFile(filePath, data);
+    registerFont(filePath, { family: font.family, weight: font.weight, style: font.style });
+    registered.set(key, getVersion(font));
+  }
+}
+
+/**
+ * Makes every stored font available to node-canvas. Call before creating a canvas to render on;
+ * fonts already registered at their current version are skipped.
+ */
+export async function registerStoredFonts(db: PrismaClient) {
+  while (registering) await registering;
+  registering = syncRegisteredFonts(db).finally(() => {
+    registering = null;
+  });
+  return registering;
+}
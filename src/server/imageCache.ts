@@ -0,0 +1,150 @@
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from "node:fs/promises";
+
+import { env } from "~/env";
+import { fetchAllowedImage } from "~/server/images";
+
+// Each image is stored as `<sha256 of its URL>` next to a `<hash>.json` sidecar with its metadata.
+// Hits bump the image's mtime, so eviction drops whatever was used least recently.
+
+export interface CachedImage {
+  filePath: string;
+  contentType: string;
+  size: number;
+  etag: string;
+}
+
+interface CachedImageMeta {
+  url: string;
+  contentType: string;
+  size: number;
+  etag: string;
+}
+
+const cacheDir = path.resolve(process.cwd(), env.IMAGE_CACHE_DIR);
+
+// Evicting down to a bit under the limit keeps every new download from triggering another sweep
+const EVICT_TO_RATIO = 0.9;
+
+// Images currently downloading, so concurrent requests for the same URL share one fetch
+const inFlight = new Map<string, Promise<CachedImage>>();
+let totalBytes: number | null = null; // Lazily counted on the first write
+let eviction: Promise<void> | null = null;
+
+const getCacheKey = (imageUrl: string) => createHash("sha256").update(imageUrl).digest("hex");
+
+const getPaths = (key: string) => ({
+  filePath: path.join(cacheDir, key),
+  metaPath: path.join(cacheDir, `${key}.json`),
+});
+
+async function readCachedImage(key: string): Promise<CachedImage | null> {
+  const { filePath, metaPath } = getPaths(key);
+  try {
+    const meta = JSON.parse(await readFile(metaPath, "utf8")) as CachedImageMeta;
+    const now = new Date();
+    await utimes(filePath, now, now);
+    return { filePath, contentType: meta.contentType, size: meta.size, etag: meta.etag };
+  } catch {
+    return null;
+  }
+}
+
+async function listCachedImages() {
+  const names = await readdir(cacheDir).catch(() => [] as string[]);
+  const images = await Promise.all(
+    names
+      .filter((name) => !name.includes("."))
+      .map(async (key) => {
+        try {
+          const { size, mtimeMs } = await stat(getPaths(key).filePath);
+          return { key, size, mtimeMs };
+        } catch {
+          return null;
+        }
+      })
+  );
+  return images.filter((image) => image !== null);
+}
+
+async function evictLeastRecentlyUsed() {
+  const images = await listCachedImages();
+  totalBytes = images.reduce((sum, image) => sum + image.size, 0);
+  if (totalBytes <= env.IMAGE_CACHE_MAX_BYTES) return;
+
+  const target = env.IMAGE_CACHE_MAX_BYTES * EVICT_TO_RATIO;
+  for (const image of images.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+    if (totalBytes <= target) break;
+    const { filePath, metaPath } = getPaths(image.key);
+    await Promise.all([rm(filePath, { force: true }), rm(metaPath, { force: true })]);
+    totalBytes -= image.size;
+  }
+}
+
+const scheduleEviction = () => {
+  eviction ??= evictLeastRecentlyUsed()
+    .catch((error) => console.error("Failed to evict image cache:", error))
+    .finally(() => {
+      eviction = null;
+    });
+};
+
+async function downloadImage(imageUrl: string, key: string): Promise<CachedImage> {
+  const { buffer, contentType } = await fetchAllowedImage(imageUrl);
+  const { filePath, metaPath } = getPaths(key);
+  const meta: CachedImageMeta = {
+    url: imageUrl,
+    contentType,
+    size: buffer.byteLength,
+    etag: `"${createHash("sha1").update(buffer).digest("hex")}"`,
+  };
+
+  // Written under temporary names and renamed into place so readers never see half a file. The
+  // image goes in before its sidecar, since the sidecar is what marks an entry as present.
+  await mkdir(cacheDir, { recursive: true });
+  const suffix = `${process.pid}-${Date.now()}.tmp`;
+  await writeFile(`${filePath}.${suffix}`, buffer);
+  await rename(`${filePath}.${suffix}`, filePath);
+  await writeFile(`${metaPath}.${suffix}`, JSON.stringify(meta));
+  await rename(`${metaPath}.${suffix}`, metaPath);
+
+  if (totalBytes === null) {
+    scheduleEviction(); // Counts what's already on disk
+  } else {
+    totalBytes += meta.size;
+    if (totalBytes > env.IMAGE_CACHE_MAX_BYTES) scheduleEviction();
+  }
+
+  return { filePath, contentType: meta.contentType, size: meta.size, etag: meta.etag };
+}
+
+/**
+ * Returns an allowed Scryfall image from the on-disk cache, downloading it first on a miss. Throws
+ * the same TRPCErrors as `fetchAllowedImage` when the download fails.
+ */
+export async function getCachedImage(imageUrl: string): Promise<CachedImage> {
+  const key = getCacheKey(imageUrl);
+  const cached = await readCachedImage(key);
+  if (cached) return cached;
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = downloadImage(imageUrl, key).finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Like `fetchAllowedImage`, but served from the on-disk cache when possible.
+ */
+export async function fetchCachedImage(imageUrl: string) {
+  const { filePath, contentType } = await getCachedImage(imageUrl);
+  try {
+    return { buffer: await readFile(filePath), contentType };
+  } catch {
+    // Evicted between the lookup and the read
+    return fetchAllowedImage(imageUrl);
+  }
+}
@@ -0,0 +1,92 @@
+import { TRPCError } from "@trpc/server";
+
+export const ALLOWED_IMAGE_DOMAINS = [
+  "cards.scryfall.io", 
+  "c1.scryfall.com",
+  "svgs.scryfall.io"
+];
+
+export const MAX_IMAGE_SIZE_BYTES = 10 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 5000;
+
+export const isAllowedImageUrl = (imageUrl: string) => {
+  try {
+    return ALLOWED_IMAGE_DOMAINS.includes(new URL(imageUrl).hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Downloads an image from one of the allowed Scryfall image hosts, enforcing the size limit and
+ * request timeout. Throws a TRPCError describing what went wrong.
+ */
+export async function fetchAllowedImage(imageUrl: string) {
+  if (!isAllowedImageUrl(imageUrl)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Image URL from disallowed domain.",
+    });
+  }
+
+  try {
+    const headController = new AbortController();
+    const headTimeoutId = setTimeout(() => headController.abort(), FETCH_TIMEOUT_MS);
+
+    const headResponse = await fetch(imageUrl, { 
+      signal: headController.signal, 
+      method: 'HEAD' 
+    });
+    clearTimeout(headTimeoutId);
+
+    if (!headResponse.ok) {
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: `Failed to fetch image headers: ${headResponse.statusText}`,
+      });
+    }
+
+    const contentLength = headResponse.headers.get('content-length');
+    if (contentLength && parseInt(contentLength, 10) > MAX_IMAGE_SIZE_BYTES) {
+      throw new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `Image exceeds maximum allowed size of ${MAX_IMAGE_SIZE_BYTES / (1024 * 1024)}MB.`,
+      });
+    }
+
+    const dataController = new AbortController();
+    const dataTimeoutId = setTimeout(() => dataController.abort(), FETCH_TIMEOUT_MS);
+    
+    const response = await fetch(imageUrl, { signal: dataController.signal });
+    clearTimeout(dataTimeoutId);
+
+    if (!response.ok) {
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: `Failed to fetch image from Scryfall: ${response.statusText}`,
+      });
+    }
+
+    const imageBuffer = await response.arrayBuffer();
+    if (imageBuffer.byteLength > MAX_IMAGE_SIZE_BYTES) {
+      throw new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `Image payload exceeds maximum allowed size of ${MAX_IMAGE_SIZE_BYTES / (1024 * 1024)}MB during download.`,
+      });
+    }
+
+    return {
+      buffer: Buffer.from(imageBuffer),
+      contentType: response.headers.get('content-type') ?? 'image/jpeg',
+    };
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new TRPCError({
+        code: 'TIMEOUT',
+        message: 'Request to fetch image timed out.',
+      });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,116 @@
+import path from "node:path";
+import { readFile } from "node:fs/promises";
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { loadImage } from "canvas";
+
+import {
+  BUILT_IN_LOGOS,
+  LOGO_CONTENT_TYPES,
+  LOGO_MAX_BYTES,
+  findLogo,
+  getLogoUrl,
+  logoPlacementSchema,
+  type LogoPlacement,
+  type ThumbnailLogo,
+} from "~/lib/logos";
+
+const storedLogoSelect = {
+  id: true,
+  name: true,
+  imageWidth: true,
+  imageHeight: true,
+  placement: true,
+  updatedAt: true,
+} as const;
+
+const toThumbnailLogo = (row: Prisma.LogoGetPayload<{ select: typeof storedLogoSelect }>): ThumbnailLogo => {
+  const placement = logoPlacementSchema.safeParse(row.placement);
+  if (!placement.success) {
+    console.error(`Logo "${row.name}" has an invalid placement:`, placement.error);
+  }
+  return {
+    key: row.id,
+    name: row.name,
+    src: getLogoUrl(row),
+    imageWidth: row.imageWidth,
+    imageHeight: row.imageHeight,
+    placement: placement.success ? placement.data : logoPlacementSchema.parse({}),
+    builtIn: false,
+  };
+};
+
+// Built-in logos followed by the ones uploaded to a workspace
+export async function listLogos(db: PrismaClient, workspaceKey: string): Promise<ThumbnailLogo[]> {
+  const rows = await db.logo.findMany({ where: { workspaceKey }, orderBy: { name: "asc" }, select: storedLogoSelect });
+  return [...BUILT_IN_LOGOS, ...rows.map(toThumbnailLogo)];
+}
+
+/**
+ * A built-in logo or one uploaded to the workspace. Unknown keys, like a deleted upload still
+ * referenced by a project or another workspace's upload, fall back to the default logo.
+ */
+export async function getLogo(db: PrismaClient, workspaceKey: string, key: string) {
+  const builtIn = BUILT_IN_LOGOS.find((logo) => logo.key === key);
+  if (builtIn) return builtIn;
+  const row = await db.logo.findFirst({ where: { id: key, workspaceKey }, select: storedLogoSelect });
+  return row ? toThumbnailLogo(row) : findLogo([], key);
+}
+
+/**
+ * Stores a logo uploaded to a workspace with the default placement. Throws BAD_REQUEST for files
+ * that are too large or that node-canvas can't decode, since the server renderer has to draw them too.
+ */
+export async function saveLogo(db: PrismaClient, workspaceKey: string, name: string, fileName: string, data: Buffer) {
+  const contentType = LOGO_CONTENT_TYPES[path.extname(fileName).toLowerCase()];
+  if (!contentType) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Logos must be ${Object.keys(LOGO_CONTENT_TYPES).join(", ")} files` });
+  }
+  if (data.length > LOGO_MAX_BYTES) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Logos must be under ${LOGO_MAX_BYTES / 1024 / 1024}MB` });
+  }
+
+  let image: Awaited<ReturnType<typeof loadImage>>;
+  try {
+    image = await loadImage(data);
+  } catch (error) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `"${fileName}" is not an image`, cause: error });
+  }
+
+  const logo = await db.logo.create({
+    data: {
+      workspaceKey,
+      name,
+      fileName,
+      contentType,
+      data,
+      imageWidth: image.width,
+      imageHeight: image.height,
+      placement: logoPlacementSchema.parse({}),
+    },
+    select: storedLogoSelect,
+  });
+  return toThumbnailLogo(logo);
+}
+
+// Throws NOT_FOUND for logos outside the workspace
+export async function updateLogo(
+  db: PrismaClient,
+  workspaceKey: string,
+  id: string,
+  update: { name?: string; placement?: LogoPlacement }
+) {
+  const { count } = await db.logo.updateMany({ where: { id, workspaceKey }, data: update });
+  if (count === 0) throw new TRPCError({ code: "NOT_FOUND", message: "Logo not found" });
+  const logo = await db.logo.findUniqueOrThrow({ where: { id }, select: storedLogoSelect });
+  return toThumbnailLogo(logo);
+}
+
+// The logo's image for the server renderer
+export async function loadLogoImage(db: PrismaClient, logo: ThumbnailLogo) {
+  if (logo.builtIn) {
+    return loadImage(await readFile(path.join(process.cwd(), "public", logo.src)));
+  }
+  const { data } = await db.logo.findUniqueOrThrow({ where: { id: logo.key }, select: { data: true } });
+  return loadImage(Buffer.from(data));
+}
@@ -0,0 +1,278 @@
+import { type PrismaClient } from "@prisma/client";
+import { createCanvas, loadImage, type CanvasRenderingContext2D, type Image } from "canvas";
+import { z } from "zod";
+
+import { registerStoredFonts } from "~/server/fonts";
+import { getLogo, loadLogoImage } from "~/server/logos";
+import { getTheme } from "~/server/themes";
+import { fetchCachedImage } from "~/server/imageCache";
+import { getTemplate } from "~/server/templates";
+import { cardCropSchema } from "~/lib/project";
+import {
+  type CardCrop,
+  type CardSlot,
+  EXPORT_PIXEL_RATIO,
+  cropToPlacement,
+  wrapText,
+} from "~/lib/thumbnail";
+import {
+  type TemplateDefinition,
+  type TextRegion,
+  DEFAULT_TEMPLATE_KEY,
+  applyTextLayerStyles,
+  getRegionText,
+  resolveFontSize,
+  templateDefinitionSchema,
+  textLayerStylesSchema,
+} from "~/lib/template";
+import { DEFAULT_LOGO_KEY, fitTextAroundLogo, getLogoRect } from "~/lib/logos";
+import { DEFAULT_THEME_KEY, applyTheme, getBarGradientPoints } from "~/lib/themes";
+
+const artUrlSchema = z.string().url().nullable();
+const cropSchema = cardCropSchema.nullable().optional();
+const slotSchema = z.string().regex(/^\w+$/);
+
+/**
+ * Mirrors `ThumbnailCanvasProps`, minus the canvas size which is fixed for server renders.
+ * The template is looked up by key unless a full definition is sent inline. Custom backgrounds
+ * must be sent inline as data URLs.
+ */
+export const thumbnailRenderInputSchema = z.object({
+  templateKey: z.string().optional(),
+  template: templateDefinitionSchema.optional(),
+  // Deprecated: the built-in template keys used to be a "Video" | "Stream" type
+  thumbnailType: z.enum(["Video", "Stream"]).optional(),
+  leftDeckName: z.string().max(100).default(""),
+  rightDeckName: z.string().max(100).default(""),
+  // Art per template slot id, e.g. { topLeft: "https://cards.scryfall.io/..." }
+  artUrls: z.record(slotSchema, artUrlSchema).default({}),
+  // Deprecated: the quadrant slots used to be sent as separate fields
+  topLeftArtUrl: artUrlSchema.optional(),
+  bottomLeftArtUrl: artUrlSchema.optional(),
+  topRightArtUrl: artUrlSchema.optional(),
+  bottomRightArtUrl: artUrlSchema.optional(),
+  // Built-in logo key or uploaded logo id; unknown keys fall back to the default logo
+  selectedLogo: z.string().max(100).default(DEFAULT_LOGO_KEY),
+  themeKey: z.string().max(100).default(DEFAULT_THEME_KEY),
+  streamDate: z.string().max(100).optional(),
+  eventName: z.string().max(100).optional(),
+  bottomText: z.string().max(100).optional(),
+  customBgUrl: z
+    .string()
+    .regex(/^data:image\/[\w.+-]+;base64,/, "Custom background must be an image data URL")
+    .nullable()
+    .optional(),
+  customBgScale: z.number().positive().max(10).optional(),
+  crops: z.record(slotSchema, cropSchema).optional(),
+  textStyles: textLayerStylesSchema.optional(),
+});
+
+export type ThumbnailRenderInput = z.infer<typeof thumbnailRenderInputSchema>;
+
+export async function resolveRenderTemplate(db: PrismaClient, input: ThumbnailRenderInput) {
+  if (input.template) return input.template;
+  const key = input.templateKey ?? input.thumbnailType?.toLowerCase() ?? DEFAULT_TEMPLATE_KEY;
+  return (await getTemplate(db, key)).definition;
+}
+
+const loadArtImage = async (artUrl: string | null) => {
+  if (!artUrl) return null;
+  const { buffer } = await fetchCachedImage(artUrl);
+  return loadImage(buffer);
+};
+
+// Applies the saved crop the same way QuadrantImage does
+const drawQuadrant = (
+  ctx: CanvasRenderingContext2D,
+  image: Image,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  crop?: CardCrop | null
+) => {
+  const placement = cropToPlacement(crop, image.width, image.height, width, height);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+  ctx.drawImage(
+    image,
+    x + placement.x,
+    y + placement.y,
+    image.width * placement.scale,
+    image.height * placement.scale
+  );
+  ctx.restore();
+};
+
+// Konva spaces letters by drawing them one at a time, each advanced by the letter spacing
+const measureLine = (ctx: CanvasRenderingContext2D, line: string, letterSpacing: number) =>
+  ctx.measureText(line).width + letterSpacing * [...line].length;
+
+const drawLine = (ctx: CanvasRenderingContext2D, region: TextRegion, line: string, x: number, y: number) => {
+  const draw = (text: string, textX: number) => {
+    ctx.fillText(text, textX, y);
+    if (region.strokeWidth > 0) ctx.strokeText(text, textX, y);
+  };
+  if (region.letterSpacing === 0) {
+    draw(line, x);
+    return;
+  }
+
+  const width = measureLine(ctx, line, region.letterSpacing);
+  let charX = { left: x, center: x - width / 2, right: x - width }[region.align];
+  ctx.textAlign = "left";
+  for (const char of line) {
+    draw(char, charX);
+    charX += ctx.measureText(char).width + region.letterSpacing;
+  }
+  ctx.textAlign = region.align;
+};
+
+// Draws word-wrapped text the way Konva.Text lays it out (line height 1, fill then stroke)
+const drawText = (ctx: CanvasRenderingContext2D, region: TextRegion, text: string) => {
+  const fontSize = resolveFontSize(region, text, ctx);
+
+  ctx.save();
+  ctx.font = `${region.fontStyle} ${fontSize}px ${region.fontFamily}`;
+  ctx.textAlign = region.align;
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = region.fill;
+  ctx.strokeStyle = region.stroke;
+  ctx.lineWidth = region.strokeWidth;
+  if (region.shadowColor) {
+    ctx.shadowColor = region.shadowColor;
+    ctx.shadowBlur = region.shadowBlur;
+    ctx.shadowOffsetX = region.shadowOffsetX;
+    ctx.shadowOffsetY = region.shadowOffsetY;
+  }
+
+  const lines = wrapText(ctx, text, region.width);
+  const textHeight = lines.length * fontSize;
+  let offsetY = 0;
+  if (region.height !== undefined && region.verticalAlign === "middle") {
+    offsetY = (region.height - textHeight) / 2;
+  } else if (region.height !== undefined && region.verticalAlign === "bottom") {
+    offsetY = region.height - textHeight;
+  }
+
+  const lineX = {
+    left: region.x,
+    center: region.x + region.width / 2,
+    right: region.x + region.width,
+  }[region.align];
+
+  lines.forEach((line, index) => {
+    drawLine(ctx, region, line, lineX, region.y + offsetY + fontSize / 2 + index * fontSize);
+  });
+  ctx.restore();
+};
+
+/**
+ * Renders a finished PNG of the template at export resolution (1280x720 for the built-in
+ * templates), matching what `ThumbnailCanvas` downloads, uploaded fonts included. The theme
+ * and uploaded logo are looked up in the given workspace.
+ */
+export async function renderThumbnailPng(
+  db: PrismaClient,
+  workspaceKey: string,
+  input: ThumbnailRenderInput,
+  template: TemplateDefinition
+): Promise<Buffer> {
+  const artUrls: Partial<Record<CardSlot, string | null>> = {
+    topLeft: input.topLeftArtUrl,
+    bottomLeft: input.bottomLeftArtUrl,
+    topRight: input.topRightArtUrl,
+    bottomRight: input.bottomRightArtUrl,
+    ...input.artUrls,
+  };
+  const textValues = {
+    leftDeckName: input.leftDeckName,
+    rightDeckName: input.rightDeckName,
+    streamDate: input.streamDate ?? "",
+    eventName: input.eventName ?? "",
+    bottomText: input.bottomText ?? "",
+  };
+
+  const artRegions = template.regions.flatMap((region) => (region.type === "art" ? [region] : []));
+  const [logo, theme] = await Promise.all([getLogo(db, workspaceKey, input.selectedLogo), getTheme(db, workspaceKey, input.themeKey)]);
+  const themedTemplate = applyTheme(template, theme.definition);
+  const [logoImage, background, artImages] = await Promise.all([
+    loadLogoImage(db, logo),
+    input.customBgUrl ? loadImage(input.customBgUrl) : null,
+    Promise.all(artRegions.map((region) => loadArtImage(artUrls[region.slot] ?? null))),
+    // Uploaded fonts have to be registered before the canvas is created and measures any text
+    registerStoredFonts(db),
+  ]);
+
+  const outputWidth = Math.round(template.width * EXPORT_PIXEL_RATIO);
+  const outputHeight = Math.round(template.height * EXPORT_PIXEL_RATIO);
+  const canvas = createCanvas(outputWidth, outputHeight);
+  const ctx = canvas.getContext("2d");
+  ctx.scale(outputWidth / template.width, outputHeight / template.height);
+
+  if (background) {
+    const bgScale = input.customBgScale ?? 1;
+    ctx.drawImage(background, 0, 0, template.width * bgScale, template.height * bgScale);
+  }
+
+  artRegions.forEach((region, index) => {
+    const image = artImages[index];
+    if (!image) return;
+    drawQuadrant(ctx, image, region.x, region.y, region.width, region.height, input.crops?.[region.slot]);
+  });
+
+  applyTextLayerStyles({ ...themedTemplate, regions: fitTextAroundLogo(themedTemplate.regions, logo) }, input.textStyles).forEach((region) => {
+    switch (region.type) {
+      case "bar":
+        ctx.save();
+        ctx.globalAlpha = region.opacity;
+        if (region.gradientTo) {
+          const { start, end } = getBarGradientPoints(region.width, region.height, region.gradientDirection);
+          const gradient = ctx.createLinearGradient(
+            region.x + start.x,
+            region.y + start.y,
+            region.x + end.x,
+            region.y + end.y
+          );
+          gradient.addColorStop(0, region.fill);
+          gradient.addColorStop(1, region.gradientTo);
+          ctx.fillStyle = gradient;
+        } else {
+          ctx.fillStyle = region.fill;
+        }
+        ctx.fillRect(region.x, region.y, region.width, region.height);
+        ctx.restore();
+        break;
+      case "border":
+        if (region.strokeWidth === 0) break;
+        ctx.strokeStyle = region.stroke;
+        ctx.lineWidth = region.strokeWidth;
+        ctx.strokeRect(region.x ?? 0, region.y ?? 0, region.width ?? template.width, region.height ?? template.height);
+        break;
+      case "line": {
+        if (region.strokeWidth === 0) break;
+        const [x1, y1, x2, y2] = region.points;
+        ctx.strokeStyle = region.stroke;
+        ctx.lineWidth = region.strokeWidth;
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.stroke();
+        break;
+      }
+      case "logo": {
+        const rect = getLogoRect(region, logo);
+        ctx.drawImage(logoImage, rect.x, rect.y, rect.width, rect.height);
+        break;
+      }
+      case "text":
+        drawText(ctx, region, getRegionText(region, textValues));
+        break;
+    }
+  });
+
+  return canvas.toBuffer("image/png");
+}
@@ -0,0 +1,331 @@
+import { env } from "~/env";
+import { type CardArt } from "~/lib/cardArt";
+import { db } from "~/server/db";
+import { withScryfallCache } from "~/server/scryfallCache";
+import { autocompleteOfflineCardNames, searchOfflineCardArts } from "~/server/scryfallOffline";
+import { enqueueScryfallRequest } from "~/server/scryfallQueue";
+
+const SCRYFALL_API_BASE = "https://api.scryfall.com";
+const USER_AGENT = "OCHMThumbnailsApp/1.0";
+
+async function fetchScryfall(path: string, options?: RequestInit) {
+  const headers = {
+    "User-Agent": USER_AGENT,
+    "Accept": "application/json, */*;q=0.8",
+    ...(options?.headers ?? {}),
+  };
+
+  return enqueueScryfallRequest(`${SCRYFALL_API_BASE}${path}`, {
+    ...options,
+    headers,
+  });
+}
+
+interface ScryfallAutocompleteResponse {
+  object: "catalog";
+  total_values: number;
+  data: string[];
+}
+
+interface ScryfallError {
+  object: "error";
+  code: string;
+  status: number;
+  details: string;
+}
+
+interface ScryfallCardImageUris {
+  small?: string;
+  normal?: string;
+  large?: string;
+  png?: string;
+  art_crop?: string;
+  border_crop?: string;
+}
+
+export interface ScryfallCard {
+  object: "card";
+  id: string;
+  name: string;
+  set: string;
+  collector_number?: string;
+  released_at?: string;
+  frame_effects?: string[];
+  border_color?: string;
+  full_art?: boolean;
+  image_status?: string;
+  artist?: string;
+  image_uris?: ScryfallCardImageUris;
+  card_faces?: Array<{
+    name?: string;
+    artist?: string;
+    image_uris?: ScryfallCardImageUris;
+  }>;
+}
+
+interface ScryfallSearchResponse {
+  object: "list";
+  total_cards: number;
+  has_more: boolean;
+  next_page?: string;
+  data: ScryfallCard[];
+}
+
+interface ScryfallCollectionResponse {
+  object: "list";
+  not_found: Array<{ name?: string }>;
+  data: ScryfallCard[];
+}
+
+const handleScryfallResponse = async <T>(response: Response, operation: string): Promise<T | null> => {
+  if (!response.ok) {
+    console.error(`Scryfall ${operation} API error:`, response.status, await response.text());
+    return null;
+  }
+  return response.json() as Promise<T>;
+};
+
+export type { CardArt };
+
+// Pass the same `seenArtUrls` for every page of a search so arts repeated across pages are dropped
+export const collectCardArts = (cards: ScryfallCard[], seenArtUrls = new Set<string>()) => {
+  const collectedArts: CardArt[] = [];
+
+  const addArt = (artUrl: string, card: ScryfallCard, artist?: string) => {
+    if (!seenArtUrls.has(artUrl)) {
+      collectedArts.push({
+        artUrl,
+        set: card.set.toUpperCase(),
+        scryfallPrintId: card.id,
+        artist,
+        releasedAt: card.released_at,
+        collectorNumber: card.collector_number,
+        frameEffects: card.frame_effects ?? [],
+        borderColor: card.border_color,
+        fullArt: card.full_art ?? false,
+        imageStatus: card.image_status,
+      });
+      seenArtUrls.add(artUrl);
+    }
+  };
+
+  cards.forEach((card) => {
+    if (card.image_uris?.art_crop) {
+      addArt(card.image_uris.art_crop, card, card.artist);
+    }
+    
+    if (card.card_faces?.length) {
+      card.card_faces.forEach(face => {
+        if (face.image_uris?.art_crop) {
+          addArt(face.image_uris.art_crop, card, face.artist ?? card.artist);
+        }
+      });
+    }
+  });
+
+  return collectedArts;
+};
+
+// Scryfall reports "no results" as a 4xx error object, which is worth caching; rate limiting and
+// server errors aren't, so those throw and leave the cache alone
+const assertCacheableResponse = (response: Response, operation: string) => {
+  if (response.ok || (response.status >= 400 && response.status < 500 && response.status !== 429)) return;
+  throw new Error(`Scryfall ${operation} request failed with status ${response.status}`);
+};
+
+// Safety net for runaway pagination; the most reprinted cards fit in well under this many pages
+const MAX_SEARCH_PAGES = 20;
+
+// Follows `next_page` through every page of an exact-name search, yielding each page's new arts
+async function* fetchCardArtPages(cardName: string): AsyncGenerator<CardArt[]> {
+  const seenArtUrls = new Set<string>();
+  let path: string | null = `/cards/search?q=${encodeURIComponent(
+    `!\"${cardName}\"`
+  )}&unique=art&include_variations=true&include_extras=true`;
+
+  for (let page = 1; path && page <= MAX_SEARCH_PAGES; page++) {
+    const response = await fetchScryfall(path);
+    assertCacheableResponse(response, "search");
+
+    const data = await handleScryfallResponse<ScryfallSearchResponse | ScryfallError>(response, "search");
+    if (!data) return;
+
+    if (data.object === "error") {
+      console.warn(`Scryfall search error for "${cardName}": ${data.details}`);
+      return;
+    }
+
+    yield collectCardArts(data.data, seenArtUrls);
+
+    path = data.has_more && data.next_page?.startsWith(SCRYFALL_API_BASE)
+      ? data.next_page.slice(SCRYFALL_API_BASE.length)
+      : null;
+  }
+}
+
+/**
+ * Every unique art for an exact card name, including variations and extras, across all pages of
+ * results. Returns an empty list when Scryfall has no match. Results are cached, see
+ * `withScryfallCache`, and come from the offline snapshot when SCRYFALL_OFFLINE_MODE says so.
+ * `onPage` is called with each page's new arts as it is fetched, which only happens when the
+ * search actually goes to Scryfall.
+ */
+export async function searchCardArts(cardName: string, onPage?: (arts: CardArt[]) => void): Promise<CardArt[]> {
+  if (!cardName) return [];
+  if (env.SCRYFALL_OFFLINE_MODE === "primary") return searchOfflineCardArts(db, cardName);
+
+  try {
+    return await withScryfallCache("search", cardName, async () => {
+      const arts: CardArt[] = [];
+      for await (const page of fetchCardArtPages(cardName)) {
+        arts.push(...page);
+        onPage?.(page);
+      }
+      return arts;
+    });
+  } catch (error) {
+    if (env.SCRYFALL_OFFLINE_MODE === "off") throw error;
+    console.error(`Scryfall search failed for "${cardName}", using the offline snapshot:`, error);
+    return searchOfflineCardArts(db, cardName);
+  }
+}
+
+/**
+ * Same results as `searchCardArts`, yielded a page at a time as Scryfall returns them. Cached
+ * results, and searches another request already has in flight, arrive as one chunk at the end.
+ */
+export async function* streamCardArts(cardName: string): AsyncGenerator<CardArt[]> {
+  const pages: CardArt[][] = [];
+  const streamedArtUrls = new Set<string>();
+  let wake: (() => void) | null = null;
+  let isDone = false;
+
+  const search = searchCardArts(cardName, (arts) => {
+    pages.push(arts);
+    wake?.();
+  }).finally(() => {
+    isDone = true;
+    wake?.();
+  });
+  // Rethrown below; this only keeps an early return from leaving the rejection unhandled
+  search.catch(() => undefined);
+
+  while (!isDone || pages.length > 0) {
+    const page = pages.shift();
+    if (page) {
+      page.forEach((art) => streamedArtUrls.add(art.artUrl));
+      yield page;
+      continue;
+    }
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+    wake = null;
+  }
+
+  const remaining = (await search).filter((art) => !streamedArtUrls.has(art.artUrl));
+  if (remaining.length > 0) yield remaining;
+}
+
+export async function autocompleteCardNames(query: string): Promise<string[]> {
+  if (!query) return [];
+  if (env.SCRYFALL_OFFLINE_MODE === "primary") return autocompleteOfflineCardNames(db, query);
+
+  try {
+    return await withScryfallCache("autocomplete", query, async () => {
+      const response = await fetchScryfall(
+        `/cards/autocomplete?q=${encodeURIComponent(query)}`
+      );
+      assertCacheableResponse(response, "autocomplete");
+
+      const data = await handleScryfallResponse<ScryfallAutocompleteResponse | ScryfallError>(response, "autocomplete");
+      if (!data) return [];
+
+      if (data.object === "error") {
+        console.error("Scryfall autocomplete error:", data.details);
+        return [];
+      }
+
+      return data.data;
+    });
+  } catch (error) {
+    if (env.SCRYFALL_OFFLINE_MODE === "off") throw error;
+    console.error(`Scryfall autocomplete failed for "${query}", using the offline snapshot:`, error);
+    return autocompleteOfflineCardNames(db, query);
+  }
+}
+
+interface ScryfallBulkDataResponse {
+  object: "bulk_data";
+  type: string;
+  download_uri: string;
+  updated_at: string;
+}
+
+/**
+ * Downloads one of Scryfall's bulk data files, e.g. "unique_artwork", and returns the response
+ * for the caller to stream. The files themselves are served from a CDN outside the API's rate limit.
+ */
+export async function downloadBulkData(type: string) {
+  const response = await fetchScryfall(`/bulk-data/${encodeURIComponent(type)}`);
+  const info = await handleScryfallResponse<ScryfallBulkDataResponse | ScryfallError>(response, "bulk data");
+  if (!info || info.object === "error") {
+    throw new Error(`Scryfall has no "${type}" bulk data file`);
+  }
+
+  const download = await fetch(info.download_uri, { headers: { "User-Agent": USER_AGENT } });
+  if (!download.ok || !download.body) {
+    throw new Error(`Failed to download Scryfall bulk data: ${download.status}`);
+  }
+  return download.body;
+}
+
+// Scryfall's /cards/collection endpoint accepts at most this many identifiers per request
+const COLLECTION_BATCH_SIZE = 75;
+
+export interface ResolvedCard {
+  requestedName: string;
+  name: string;
+}
+
+/**
+ * Looks up card names in bulk, correcting capitalization and matching double-faced cards by their
+ * front face. Names Scryfall doesn't know come back in `notFound`.
+ */
+export async function resolveCardNames(names: string[]) {
+  const resolved: ResolvedCard[] = [];
+  const notFound: string[] = [];
+
+  for (let start = 0; start < names.length; start += COLLECTION_BATCH_SIZE) {
+    const batch = names.slice(start, start + COLLECTION_BATCH_SIZE);
+    const response = await fetchScryfall("/cards/collection", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ identifiers: batch.map((name) => ({ name })) }),
+    });
+
+    const data = await handleScryfallResponse<ScryfallCollectionResponse | ScryfallError>(response, "collection");
+    if (!data || data.object === "error") {
+      notFound.push(...batch);
+      continue;
+    }
+
+    const cardsByName = new Map<string, ScryfallCard>();
+    data.data.forEach((card) => {
+      cardsByName.set(card.name.toLowerCase(), card);
+      const frontFace = card.card_faces?.[0]?.name;
+      if (frontFace) cardsByName.set(frontFace.toLowerCase(), card);
+    });
+
+    batch.forEach((requestedName) => {
+      const card = cardsByName.get(requestedName.toLowerCase());
+      if (!card) {
+        notFound.push(requestedName);
+        return;
+      }
+      resolved.push({ requestedName, name: card.name });
+    });
+  }
+
+  return { resolved, notFound };
+}
@@ -0,0 +1,82 @@
+import { type Prisma, type PrismaClient } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { collectCardArts, type ScryfallCard } from "~/server/scryfall";
+
+const INSERT_BATCH_SIZE = 1000;
+const IMPORT_TIMEOUT_MS = 1000 * 60 * 10;
+
+// Scryfall's bulk files are a JSON array with one card object per line, so they can be read a line
+// at a time instead of parsing a few hundred megabytes in one go
+async function* readLines(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    yield* lines;
+  }
+  if (buffered) yield buffered;
+}
+
+const parseCardLine = (line: string): ScryfallCard | null => {
+  // Drop the array's brackets and the comma between objects
+  const json = line.trim().replace(/^\[/, "").replace(/[\s,\]]+$/, "");
+  if (!json.startsWith("{")) return null;
+  try {
+    const card = JSON.parse(json) as ScryfallCard;
+    return card.object === "card" ? card : null;
+  } catch {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Expected a Scryfall bulk data file with one card per line.",
+    });
+  }
+};
+
+/**
+ * Replaces the offline snapshot with the cards in a Scryfall bulk data file ("unique_artwork" is
+ * the one meant for this). Returns how many arts were imported.
+ */
+export async function importScryfallBulkData(db: PrismaClient, body: ReadableStream<Uint8Array>) {
+  const rows: Prisma.ScryfallArtCreateManyInput[] = [];
+  const seenArtUrls = new Set<string>();
+
+  for await (const line of readLines(body)) {
+    const card = parseCardLine(line);
+    if (!card) continue;
+
+    collectCardArts([card], seenArtUrls).forEach((art) => {
+      rows.push({
+        artUrl: art.artUrl,
+        scryfallPrintId: art.scryfallPrintId,
+        cardName: card.name,
+        frontFaceName: card.card_faces?.[0]?.name ?? card.name,
+        set: art.set,
+        collectorNumber: art.collectorNumber ?? null,
+        artist: art.artist ?? null,
+        releasedAt: art.releasedAt ? new Date(art.releasedAt) : null,
+        frameEffects: art.frameEffects ?? [],
+        borderColor: art.borderColor ?? null,
+        fullArt: art.fullArt ?? false,
+        imageStatus: art.imageStatus ?? null,
+      });
+    });
+  }
+
+  if (rows.length === 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "No cards found in the bulk data file." });
+  }
+
+  await db.$transaction(async (tx) => {
+    await tx.scryfallArt.deleteMany();
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      await tx.scryfallArt.createMany({ data: rows.slice(start, start + INSERT_BATCH_SIZE) });
+    }
+  }, { timeout: IMPORT_TIMEOUT_MS });
+
+  return { arts: rows.length };
+}
@@ -0,0 +1,109 @@
+import { type Prisma } from "@prisma/client";
+
+import { env } from "~/env";
+import { db } from "~/server/db";
+
+export type ScryfallCacheEndpoint = "search" | "autocomplete";
+
+const TTL_SECONDS: Record<ScryfallCacheEndpoint, number> = {
+  search: env.SCRYFALL_CACHE_SEARCH_TTL_SECONDS,
+  autocomplete: env.SCRYFALL_CACHE_AUTOCOMPLETE_TTL_SECONDS,
+};
+
+// Bump an endpoint's version whenever the shape or completeness of what its fetcher returns changes,
+// so older entries stop being served and age out through pruning. Search is at 2 for paginated
+// results with printing details.
+const CACHE_VERSIONS: Record<ScryfallCacheEndpoint, number> = {
+  search: 2,
+  autocomplete: 1,
+};
+
+const PRUNE_INTERVAL_MS = 1000 * 60 * 60;
+let lastPrunedAt = 0;
+
+// Lookups currently hitting Scryfall, so concurrent requests for the same key share one call
+const inFlight = new Map<string, Promise<unknown>>();
+
+const refresh = <T extends Prisma.InputJsonValue>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const request = (async () => {
+    try {
+      const value = await fetcher();
+      const fetchedAt = new Date();
+      try {
+        await db.scryfallCacheEntry.upsert({
+          where: { key },
+          update: { value, fetchedAt },
+          create: { key, value, fetchedAt },
+        });
+        void pruneExpiredEntries();
+      } catch (error) {
+        console.error(`Failed to write Scryfall cache for "${key}":`, error);
+      }
+      return value;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+  inFlight.set(key, request);
+  return request;
+};
+
+// Drops entries too old to be served at all, at most once an hour per server
+async function pruneExpiredEntries() {
+  if (Date.now() - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = Date.now();
+
+  const maxAgeSeconds = Math.max(...Object.values(TTL_SECONDS)) + env.SCRYFALL_CACHE_STALE_SECONDS;
+  try {
+    await db.scryfallCacheEntry.deleteMany({
+      where: { fetchedAt: { lt: new Date(Date.now() - maxAgeSeconds * 1000) } },
+    });
+  } catch (error) {
+    console.error("Failed to prune Scryfall cache:", error);
+  }
+}
+
+/**
+ * Serves a Scryfall result from the database cache. Fresh entries are returned as-is; entries past
+ * their TTL but inside the stale window are returned immediately while a background refresh
+ * replaces them. Anything older, or missing, is fetched before returning, falling back to the old
+ * entry if Scryfall fails. `fetcher` should throw on errors that shouldn't be cached.
+ */
+export async function withScryfallCache<T extends Prisma.InputJsonValue>(
+  endpoint: ScryfallCacheEndpoint,
+  query: string,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const key = `${endpoint}:v${CACHE_VERSIONS[endpoint]}:${query.trim().toLowerCase()}`;
+
+  let entry: { value: Prisma.JsonValue; fetchedAt: Date } | null = null;
+  try {
+    entry = await db.scryfallCacheEntry.findUnique({ where: { key }, select: { value: true, fetchedAt: true } });
+  } catch (error) {
+    // A broken cache shouldn't take card search down with it
+    console.error("Failed to read Scryfall cache:", error);
+    return fetcher();
+  }
+
+  if (entry) {
+    const ageSeconds = (Date.now() - entry.fetchedAt.getTime()) / 1000;
+    const ttlSeconds = TTL_SECONDS[endpoint];
+    if (ageSeconds < ttlSeconds) return entry.value as T;
+
+    if (ageSeconds < ttlSeconds + env.SCRYFALL_CACHE_STALE_SECONDS) {
+      refresh(key, fetcher).catch((error) => console.error(`Failed to revalidate Scryfall cache for "${key}":`, error));
+      return entry.value as T;
+    }
+  }
+
+  try {
+    return await refresh(key, fetcher);
+  } catch (error) {
+    if (!entry) throw error;
+    console.error(`Scryfall request failed, serving expired cache for "${key}":`, error);
+    return entry.value as T;
+  }
+}
@@ -0,0 +1,56 @@
+import { type PrismaClient } from "@prisma/client";
+
+import { type CardArt } from "~/lib/cardArt";
+
+// Matches Scryfall's autocomplete, which returns at most 20 names
+const AUTOCOMPLETE_LIMIT = 20;
+// Names containing the query are fetched in bulk so prefix matches can be ranked first
+const AUTOCOMPLETE_CANDIDATES = 200;
+
+/**
+ * Every art for an exact card name (or the front face of a double-faced card) from the imported
+ * bulk data snapshot, newest printing first. Empty when nothing has been imported.
+ */
+export async function searchOfflineCardArts(db: PrismaClient, cardName: string): Promise<CardArt[]> {
+  const name = cardName.trim();
+  const arts = await db.scryfallArt.findMany({
+    where: {
+      OR: [
+        { cardName: { equals: name, mode: "insensitive" } },
+        { frontFaceName: { equals: name, mode: "insensitive" } },
+      ],
+    },
+    orderBy: [{ releasedAt: { sort: "desc", nulls: "last" } }, { artUrl: "asc" }],
+  });
+
+  return arts.map((art) => ({
+    artUrl: art.artUrl,
+    set: art.set,
+    scryfallPrintId: art.scryfallPrintId,
+    artist: art.artist ?? undefined,
+    releasedAt: art.releasedAt?.toISOString().slice(0, 10),
+    collectorNumber: art.collectorNumber ?? undefined,
+    frameEffects: art.frameEffects,
+    borderColor: art.borderColor ?? undefined,
+    fullArt: art.fullArt,
+    imageStatus: art.imageStatus ?? undefined,
+  }));
+}
+
+// Card names containing the query, those starting with it first, like Scryfall's autocomplete
+export async function autocompleteOfflineCardNames(db: PrismaClient, query: string): Promise<string[]> {
+  const normalizedQuery = query.trim().toLowerCase();
+  const matches = await db.scryfallArt.findMany({
+    where: { cardName: { contains: normalizedQuery, mode: "insensitive" } },
+    distinct: ["cardName"],
+    select: { cardName: true },
+    orderBy: { cardName: "asc" },
+    take: AUTOCOMPLETE_CANDIDATES,
+  });
+
+  const isPrefixMatch = (name: string) => name.toLowerCase().startsWith(normalizedQuery);
+  return matches
+    .map(({ cardName }) => cardName)
+    .sort((a, b) => Number(isPrefixMatch(b)) - Number(isPrefixMatch(a)))
+    .slice(0, AUTOCOMPLETE_LIMIT);
+}
@@ -0,0 +1,80 @@
+// Shared queue for every request to api.scryfall.com. Scryfall asks for 50-100ms between
+// requests, so requests start at most once per MIN_INTERVAL_MS no matter how many procedures are
+// waiting on them, and a 429 pauses the whole queue rather than just the request that got it.
+
+const MIN_INTERVAL_MS = 100;
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+const RETRY_STATUSES = new Set([429, 503]);
+
+interface QueuedRequest {
+  url: string;
+  init: RequestInit;
+  attempt: number;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+const queue: QueuedRequest[] = [];
+let inFlight = 0;
+let nextStartAt = 0; // Earliest time the next request may start
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+// Honors Retry-After when Scryfall sends one, otherwise doubles from BASE_BACKOFF_MS with jitter
+const getBackoffMs = (response: Response, attempt: number) => {
+  const retryAfterSeconds = Number(response.headers.get("retry-after"));
+  if (retryAfterSeconds > 0) return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+  const backoff = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * backoff * 0.25, MAX_BACKOFF_MS);
+};
+
+const startNext = () => {
+  const request = queue.shift();
+  if (!request) return;
+
+  nextStartAt = Date.now() + MIN_INTERVAL_MS;
+  inFlight++;
+  fetch(request.url, request.init)
+    .then((response) => {
+      if (RETRY_STATUSES.has(response.status) && request.attempt < MAX_RETRIES) {
+        const backoffMs = getBackoffMs(response, request.attempt);
+        console.warn(
+          `[Scryfall] ${response.status} for ${request.url}, retrying in ${Math.round(backoffMs)}ms ` +
+          `(attempt ${request.attempt + 1} of ${MAX_RETRIES})`
+        );
+        void response.body?.cancel();
+        nextStartAt = Math.max(nextStartAt, Date.now() + backoffMs);
+        queue.unshift({ ...request, attempt: request.attempt + 1 });
+        return;
+      }
+      request.resolve(response);
+    }, request.reject)
+    .finally(() => {
+      inFlight--;
+      schedule();
+    });
+};
+
+function schedule() {
+  if (timer || queue.length === 0) return;
+  timer = setTimeout(() => {
+    timer = null;
+    // A backoff may have pushed nextStartAt back while this timer was pending
+    if (Date.now() >= nextStartAt) startNext();
+    schedule();
+  }, Math.max(0, nextStartAt - Date.now()));
+}
+
+/**
+ * Queues a request to Scryfall and resolves with its response once it has run, after any retries
+ * for rate limiting. Responses other than 429/503 are returned as-is for the caller to handle.
+ */
+export function enqueueScryfallRequest(url: string, init: RequestInit = {}): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    queue.push({ url, init, attempt: 0, resolve, reject });
+    schedule();
+  });
+}
+
+export const getScryfallQueueStats = () => ({ queued: queue.length, inFlight });
@@ -0,0 +1,63 @@
+import { TRPCError } from "@trpc/server";
+
+// Failed sign-ins allowed per username and per client address before both are locked out for the
+// rest of the window. Counted in memory, so a restart resets them.
+const MAX_FAILED_SIGN_INS = 10;
+const FAILED_SIGN_IN_WINDOW_MS = 15 * 60 * 1000;
+// Expired entries are swept once the map grows past this, so made-up usernames can't pile up
+const SWEEP_THRESHOLD = 10_000;
+
+const failures = new Map<string, { count: number; resetAt: number }>();
+
+const getKeys = (username: string, clientAddress: string) => ({
+  userKey: `user:${username}`,
+  addressKey: `address:${clientAddress}`,
+});
+
+const getFailureCount = (key: string, now: number) => {
+  const entry = failures.get(key);
+  return entry && entry.resetAt > now ? entry.count : 0;
+};
+
+const recordFailure = (key: string, now: number) => {
+  const entry = failures.get(key);
+  if (entry && entry.resetAt > now) {
+    entry.count++;
+    return;
+  }
+  if (failures.size >= SWEEP_THRESHOLD) {
+    failures.forEach(({ resetAt }, staleKey) => {
+      if (resetAt <= now) failures.delete(staleKey);
+    });
+  }
+  failures.set(key, { count: 1, resetAt: now + FAILED_SIGN_IN_WINDOW_MS });
+};
+
+// The client's address as the proxy in front of the app reports it
+export const getClientAddress = (headers: Headers) =>
+  headers.get("x-forwarded-for")?.split(",")[0]?.trim() ?? headers.get("x-real-ip") ?? "unknown";
+
+/**
+ * Runs a sign-in unless the username or client address has too many recent failures, in which
+ * case it throws TOO_MANY_REQUESTS without checking the password. UNAUTHORIZED errors from
+ * `signIn` count as failures; a success clears the username's count.
+ */
+export async function limitFailedSignIns<T>(username: string, clientAddress: string, signIn: () => Promise<T>) {
+  const now = Date.now();
+  const { userKey, addressKey } = getKeys(username, clientAddress);
+  if (getFailureCount(userKey, now) >= MAX_FAILED_SIGN_INS || getFailureCount(addressKey, now) >= MAX_FAILED_SIGN_INS) {
+    throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "Too many failed sign-ins; try again later" });
+  }
+
+  try {
+    const result = await signIn();
+    failures.delete(userKey);
+    return result;
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === "UNAUTHORIZED") {
+      recordFailure(userKey, now);
+      recordFailure(addressKey, now);
+    }
+    throw error;
+  }
+}
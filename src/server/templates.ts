@@ -0,0 +1,32 @@
+import { type PrismaClient } from "@prisma/client";
+
+import {
+  BUILT_IN_TEMPLATES,
+  findTemplate,
+  templateDefinitionSchema,
+  type ThumbnailTemplate,
+} from "~/lib/template";
+
+/**
+ * Built-in templates merged with the ones stored in the database. Stored templates win when they
+ * share a key with a built-in, and rows whose JSON no longer validates are skipped.
+ */
+export async function listTemplates(db: PrismaClient): Promise<ThumbnailTemplate[]> {
+  const rows = await db.thumbnailTemplate.findMany({ orderBy: { name: "asc" } });
+
+  const stored = rows.flatMap((row): ThumbnailTemplate[] => {
+    const definition = templateDefinitionSchema.safeParse(row.definition);
+    if (!definition.success) {
+      console.error(`Template "${row.key}" has an invalid definition:`, definition.error);
+      return [];
+    }
+    return [{ key: row.key, name: row.name, definition: definition.data, builtIn: false }];
+  });
+
+  const storedKeys = new Set(stored.map((template) => template.key));
+  return [...BUILT_IN_TEMPLATES.filter((template) => !storedKeys.has(template.key)), ...stored];
+}
+
+export async function getTemplate(db: PrismaClient, key: string) {
+  return findTemplate(await listTemplates(db), key);
+}
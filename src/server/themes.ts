@@ -0,0 +1,27 @@
+import { type PrismaClient } from "@prisma/client";
+
+import { BUILT_IN_THEMES, findTheme, themeDefinitionSchema, type ThumbnailTheme } from "~/lib/themes";
+
+/**
+ * Built-in themes merged with the ones stored for a workspace. Stored themes win when they share
+ * a key with a built-in, and rows whose JSON no longer validates are skipped.
+ */
+export async function listThemes(db: PrismaClient, workspaceKey: string): Promise<ThumbnailTheme[]> {
+  const rows = await db.thumbnailTheme.findMany({ where: { workspaceKey }, orderBy: { name: "asc" } });
+
+  const stored = rows.flatMap((row): ThumbnailTheme[] => {
+    const definition = themeDefinitionSchema.safeParse(row.definition);
+    if (!definition.success) {
+      console.error(`Theme "${row.key}" has an invalid definition:`, definition.error);
+      return [];
+    }
+    return [{ key: row.key, name: row.name, definition: definition.data, builtIn: false }];
+  });
+
+  const storedKeys = new Set(stored.map((theme) => theme.key));
+  return [...BUILT_IN_THEMES.filter((theme) => !storedKeys.has(theme.key)), ...stored];
+}
+
+export async function getTheme(db: PrismaClient, workspaceKey: string, key: string) {
+  return findTheme(await listThemes(db, workspaceKey), key);
+}
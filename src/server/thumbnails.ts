@@ -0,0 +1,93 @@
+import { type Prisma, type PrismaClient, type Thumbnail } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { type ThumbnailDraft, thumbnailCardSchema } from "~/lib/publishing";
+import { recordArtUsage, undoArtUsage } from "~/server/artUsage";
+import { findDeckByNameOrAlias, rollbackDeckUsage } from "~/server/decks";
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const getDeckNames = (thumbnail: { leftDeckName: string; rightDeckName: string }) =>
+  [...new Set([thumbnail.leftDeckName, thumbnail.rightDeckName].map((name) => name.trim()).filter(Boolean))];
+
+/**
+ * Saves an exported thumbnail as a draft in a workspace. Re-exporting updates the same draft; once
+ * it's been published a new draft is started instead, so the published record stays as it went out.
+ * Throws NOT_FOUND when the draft's project belongs to another workspace.
+ */
+export async function saveThumbnailDraft(db: DbClient, workspaceKey: string, { id, ...draft }: ThumbnailDraft) {
+  if (draft.projectId) {
+    const project = await db.thumbnailProject.findFirst({ where: { id: draft.projectId, workspaceKey }, select: { id: true } });
+    if (!project) throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+  }
+  if (id) {
+    const { count } = await db.thumbnail.updateMany({ where: { id, workspaceKey, status: "draft" }, data: draft });
+    if (count > 0) return db.thumbnail.findUniqueOrThrow({ where: { id } });
+  }
+  return db.thumbnail.create({ data: { ...draft, workspaceKey } });
+}
+
+/**
+ * Publishes a workspace's draft, logging its arts and deck names as used there, all or nothing:
+ * it runs in one transaction, the caller's if it's already in one. Publishing a thumbnail that's
+ * already published leaves it as it is.
+ */
+export async function publishThumbnail(db: DbClient, workspaceKey: string, id: string): Promise<Thumbnail> {
+  if ("$transaction" in db) {
+    return db.$transaction((tx) => publishThumbnail(tx, workspaceKey, id));
+  }
+
+  // Claimed before anything is logged, so of two publishes racing only one logs the uses
+  const publishedAt = new Date();
+  const { count } = await db.thumbnail.updateMany({
+    where: { id, workspaceKey, status: "draft" },
+    data: { status: "published", publishedAt },
+  });
+  const thumbnail = await db.thumbnail.findFirst({ where: { id, workspaceKey } });
+  if (!thumbnail) throw new TRPCError({ code: "NOT_FOUND", message: "Thumbnail not found" });
+  if (count === 0) return thumbnail;
+
+  const cards = z.array(thumbnailCardSchema).parse(thumbnail.cards);
+  for (const card of cards) {
+    await recordArtUsage(db, workspaceKey, { ...card, thumbnailId: thumbnail.id });
+  }
+
+  // Names are matched like the deck fields do, so an alias or another casing credits the main deck
+  for (const name of getDeckNames(thumbnail)) {
+    const deck = await findDeckByNameOrAlias(db, workspaceKey, name);
+    if (deck) {
+      await db.deck.update({ where: { id: deck.id }, data: { lastUsedAt: publishedAt } });
+    } else {
+      await db.deck.create({ data: { workspaceKey, name, lastUsedAt: publishedAt } });
+    }
+  }
+
+  return thumbnail;
+}
+
+/**
+ * Takes a published thumbnail back to a draft: its art uses are reverted and its decks' last use
+ * rolls back to the newest thumbnail still published with them. Transactional like publishing.
+ */
+export async function unpublishThumbnail(db: DbClient, workspaceKey: string, id: string): Promise<Thumbnail> {
+  if ("$transaction" in db) {
+    return db.$transaction((tx) => unpublishThumbnail(tx, workspaceKey, id));
+  }
+
+  // Claimed the same way as publishing, so the uses are only reverted once
+  const { count } = await db.thumbnail.updateMany({
+    where: { id, workspaceKey, status: "published" },
+    data: { status: "draft", publishedAt: null },
+  });
+  const draft = await db.thumbnail.findFirst({ where: { id, workspaceKey } });
+  if (!draft) throw new TRPCError({ code: "NOT_FOUND", message: "Thumbnail not found" });
+  if (count === 0) return draft;
+
+  await undoArtUsage(db, { thumbnailId: id });
+  for (const name of getDeckNames(draft)) {
+    await rollbackDeckUsage(db, workspaceKey, name);
+  }
+
+  return draft;
+}
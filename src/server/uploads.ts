@@ -0,0 +1,28 @@
+import { TRPCError } from "@trpc/server";
+
+/**
+ * Reads an uploaded request body, throwing PAYLOAD_TOO_LARGE as soon as it goes over `maxBytes`
+ * rather than after buffering all of it. A too-large Content-Length is rejected before reading.
+ */
+export async function readUploadBody(req: Request, maxBytes: number, message: string) {
+  const contentLength = req.headers.get("content-length");
+  if (contentLength && parseInt(contentLength, 10) > maxBytes) {
+    throw new TRPCError({ code: "PAYLOAD_TOO_LARGE", message });
+  }
+  if (!req.body) return Buffer.alloc(0);
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new TRPCError({ code: "PAYLOAD_TOO_LARGE", message });
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
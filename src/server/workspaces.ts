@@ -0,0 +1,39 @@
+import { type PrismaClient } from "@prisma/client";
+
+import { BUILT_IN_WORKSPACES, DEFAULT_WORKSPACE_KEY, WORKSPACE_COOKIE, type Workspace, findWorkspace } from "~/lib/workspaces";
+import { getRequestCookie } from "~/server/auth";
+
+// Built-in workspaces merged with the stored ones. Stored rows win when they share a built-in's key.
+export async function listWorkspaces(db: PrismaClient): Promise<Workspace[]> {
+  const rows = await db.workspace.findMany({ orderBy: { name: "asc" }, select: { key: true, name: true } });
+  const stored = rows.map((row) => ({ ...row, builtIn: false }));
+  const storedKeys = new Set(stored.map((workspace) => workspace.key));
+  return [...BUILT_IN_WORKSPACES.filter((workspace) => !storedKeys.has(workspace.key)), ...stored];
+}
+
+// The workspace picked with the switcher's cookie. Unknown keys, like a deleted workspace, fall back to the default.
+export async function getRequestWorkspace(db: PrismaClient, headers: Headers) {
+  const key = getRequestCookie(headers, WORKSPACE_COOKIE);
+  if (!key || key === DEFAULT_WORKSPACE_KEY) return findWorkspace([], DEFAULT_WORKSPACE_KEY);
+  return findWorkspace(await listWorkspaces(db), key);
+}
+
+/**
+ * Where-clause for art and deck usage seen from a workspace. `null` looks across every workspace,
+ * for avoiding an art another channel used recently too.
+ */
+export const usageWhere = (workspaceKey: string | null) => (workspaceKey === null ? {} : { workspaceKey });
+
+// Whether anything still belongs to a workspace, so deleting it wouldn't strand rows
+export async function isWorkspaceInUse(db: PrismaClient, workspaceKey: string) {
+  const counts = await db.$transaction([
+    db.deck.count({ where: { workspaceKey } }),
+    db.cardArtUsage.count({ where: { workspaceKey } }),
+    db.artUsageEvent.count({ where: { workspaceKey } }),
+    db.thumbnail.count({ where: { workspaceKey } }),
+    db.thumbnailProject.count({ where: { workspaceKey } }),
+    db.logo.count({ where: { workspaceKey } }),
+    db.thumbnailTheme.count({ where: { workspaceKey } }),
+  ]);
+  return counts.some((count) => count > 0);
+}